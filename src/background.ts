@@ -0,0 +1,294 @@
+import type { BackgroundErrorPolicy, BackgroundMode, LayerEntrypointInfo, LayerOptions } from './types'
+
+export const MODULE_NAME = 'wxt-module-layers:background'
+export const MODULE_ID = '\0' + MODULE_NAME
+
+/**
+ * Options for the layer backgrounds virtual module
+ */
+export interface LayerBackgroundsOptions {
+  /**
+   * Whether to log grouped console output, timings and status summary
+   */
+  profile: boolean
+
+  /**
+   * What to do when a layer background throws, rejects or times out
+   */
+  errors: BackgroundErrorPolicy
+
+  /**
+   * Whether to run handlers one at a time, or concurrently in groups with the same order
+   */
+  mode: BackgroundMode
+
+  /**
+   * Whether to pass handlers a context object (true) or the previous layer's result (false)
+   */
+  context: boolean
+}
+
+/**
+ * Layer options which only configure the build, so aren't bundled into the background
+ */
+const BUILD_ONLY_KEYS = ['entrypoints', 'manifest', 'manifestPatch']
+
+/**
+ * Get a layer's resolved options, without build-only options or functions
+ */
+function getRuntimeOptions (options: LayerOptions): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(options)
+    .filter(([key, value]) => !BUILD_ONLY_KEYS.includes(key) && typeof value !== 'function'))
+}
+
+/**
+ * Generate the code for the layer backgrounds virtual module
+ *
+ * @param entrypoints   Entrypoint infos for the layer backgrounds, in load order
+ * @param options       Runner options
+ */
+function generateCode (entrypoints: LayerEntrypointInfo[], options: LayerBackgroundsOptions): string {
+  // variables
+  let imports = ''
+  const layers: string[] = []
+
+  // prepare imports and layer definitions
+  for (const [index, entrypoint] of entrypoints.entries()) {
+    const label = entrypoint.layerName.replace(/\W+/g, '_')
+    const handler = `init_${index}_${label}`
+    imports += `import ${handler} from ${JSON.stringify(entrypoint.info.inputPath)};\n`
+    layers.push(`{ ${[
+      `name: ${JSON.stringify(entrypoint.layerName)}`,
+      `handler: ${handler}`,
+      `order: ${entrypoint.order}`,
+      `group: ${entrypoint.group}`,
+      `timeout: ${entrypoint.timeout ?? 0}`,
+      `options: ${JSON.stringify(getRuntimeOptions(entrypoint.options))}`,
+    ].join(', ')} }`)
+  }
+
+  // final code
+  return `
+    ${imports}
+
+    // variables
+    const PROFILE = ${options.profile};
+    const ERRORS = ${JSON.stringify(options.errors)};
+    const CONTEXT = ${options.context};
+    const MODE = ${JSON.stringify(options.mode)};
+    const LAYERS = [
+      ${layers.join(',\n      ')}
+    ];
+    const listeners = { error: [], done: [] };
+    const registry = new Map();
+    const layerResults = {};
+    const microtime = () => performance.now();
+    const style = 'color: var(--ref-palette-primary60); padding: 2px 0px; border-radius: 4px;';
+
+    // helpers
+    function trace (text, time) {
+      const ms = Math.floor((microtime() - time) * 1000) / 1000;
+      console.log('%c' + text + ': ' + ms.toFixed(3) + 'ms', style);
+    }
+
+    function subscribe (type, listener) {
+      listeners[type].push(listener);
+      return () => {
+        listeners[type] = listeners[type].filter(fn => fn !== listener);
+      };
+    }
+
+    function emit (type, payload) {
+      for (const listener of listeners[type]) {
+        try {
+          listener(payload);
+        }
+        catch (error) {
+          console.error('[wxt-layers] listener error:', error);
+        }
+      }
+    }
+
+    function createContext (layer) {
+      return {
+        name: layer.name,
+        options: layer.options,
+        results: layerResults,
+        provide,
+        inject,
+      };
+    }
+
+    function runLayer (layer, prevResult) {
+      const main = typeof layer.handler === 'function'
+        ? layer.handler
+        : layer.handler.main;
+      const arg = CONTEXT ? createContext(layer) : prevResult;
+      const result = Promise.resolve().then(() => main(arg));
+      if (!layer.timeout) {
+        return result;
+      }
+      let timer;
+      const timeout = new Promise((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error('Timed out after ' + layer.timeout + 'ms');
+          error.name = 'LayerTimeoutError';
+          reject(error);
+        }, layer.timeout);
+      });
+      return Promise.race([result, timeout]).finally(() => clearTimeout(timer));
+    }
+
+    // registry
+    export function provide (key, value) {
+      registry.set(key, value);
+    }
+
+    export function inject (key, ...fallback) {
+      if (registry.has(key)) {
+        return registry.get(key);
+      }
+      if (fallback.length > 0) {
+        return fallback[0];
+      }
+      throw new Error('[wxt-layers] Nothing provided for "' + String(key) + '"');
+    }
+
+    // events
+    export function onLayerError (listener) {
+      return subscribe('error', listener);
+    }
+
+    export function onLayersDone (listener) {
+      return subscribe('done', listener);
+    }
+
+    // runner
+    function getGroups () {
+      const groups = [];
+      for (const layer of LAYERS) {
+        const group = groups.at(-1);
+        if (MODE === 'parallel-by-order' && group && group[0].group === layer.group) {
+          group.push(layer);
+        }
+        else {
+          groups.push([layer]);
+        }
+      }
+      return groups;
+    }
+
+    async function runAll () {
+      const start = microtime();
+      const results = LAYERS.map(layer => ({ name: layer.name, status: 'pending', ms: 0 }));
+      let prevResult;
+      let aborted = false;
+
+      async function run (layer) {
+        const result = results[LAYERS.indexOf(layer)];
+        const interval = microtime();
+        try {
+          const value = await runLayer(layer, prevResult);
+          layerResults[layer.name] = value;
+          result.status = 'ok';
+          return value;
+        }
+        catch (error) {
+          result.status = error instanceof Error && error.name === 'LayerTimeoutError' ? 'timeout' : 'error';
+          result.error = error;
+          result.ms = microtime() - interval;
+          console.error('[wxt-layers] ' + layer.name + '.background ' + (result.status === 'timeout' ? 'timed out' : 'failed') + ':', error);
+          emit('error', { ...result });
+          aborted = aborted || ERRORS === 'abort';
+          return prevResult;
+        }
+        finally {
+          result.ms = microtime() - interval;
+        }
+      }
+
+      PROFILE && console.group('[wxt-layers]');
+      for (const group of getGroups()) {
+        if (aborted) {
+          group.forEach(layer => results[LAYERS.indexOf(layer)].status = 'skipped');
+          continue;
+        }
+
+        // single layer: group its console output
+        if (group.length === 1) {
+          const [layer] = group;
+          const interval = microtime();
+          PROFILE && console.group(layer.name + '.background:');
+          prevResult = await run(layer);
+          PROFILE && trace('Took', interval);
+          PROFILE && console.groupEnd();
+        }
+
+        // multiple layers: run concurrently, then log timings
+        else {
+          const interval = microtime();
+          const values = await Promise.all(group.map(run));
+          prevResult = values.at(-1);
+          if (PROFILE) {
+            console.group('order ' + group[0].order + ' (' + group.map(layer => layer.name).join(', ') + '):');
+            for (const layer of group) {
+              console.log('%c' + layer.name + '.background: ' + results[LAYERS.indexOf(layer)].ms.toFixed(3) + 'ms', style);
+            }
+            trace('Group', interval);
+            console.groupEnd();
+          }
+        }
+      }
+      if (PROFILE) {
+        console.group('Status:');
+        for (const result of results) {
+          console.log('%c' + result.name + ': ' + result.status + (result.status === 'skipped' ? '' : ' (' + result.ms.toFixed(3) + 'ms)'), style);
+        }
+        console.groupEnd();
+        trace('Total', start);
+        console.groupEnd();
+      }
+      emit('done', results);
+      return results;
+    }
+
+    export default {
+      main () {
+        void runAll();
+        return true;
+      }
+    }
+  `
+}
+
+/**
+ * Create a Vite plugin that provides a virtual module to load layer backgrounds
+ *
+ * @param entrypoints   Entrypoint infos for the layer backgrounds, in load order
+ * @param options       Runner options
+ */
+export function createLayerBackgroundsPlugin (entrypoints: LayerEntrypointInfo[], options: LayerBackgroundsOptions) {
+  return {
+    name: 'wxt-module-layers-backgrounds',
+
+    resolveId (id: string) {
+      if (id === MODULE_NAME) {
+        return MODULE_ID
+      }
+    },
+
+    load (id: string) {
+      if (id === MODULE_ID) {
+        return generateCode(entrypoints, options)
+      }
+    },
+
+    async handleHotUpdate ({ server, module }: { server: any; module: any }) {
+      if (module.id === MODULE_ID) {
+        const module = server.moduleGraph.getModuleById(MODULE_ID)
+        server.moduleGraph.invalidateModule(module)
+        server.ws.send({ type: 'full-reload' })
+      }
+    },
+  }
+}
@@ -0,0 +1,196 @@
+import { basename, dirname, relative, sep } from 'node:path'
+import { globSync } from 'glob'
+import type { LayerBoundaryPolicy } from './types'
+
+/**
+ * A layer's public surface, to check imports from other layers against
+ */
+export interface LayerBoundary {
+  /**
+   * The layer name
+   */
+  name: string
+
+  /**
+   * The absolute path to the layer folder
+   */
+  path: string
+
+  /**
+   * The resolved alias for the layer, if registered
+   */
+  alias?: string
+
+  /**
+   * Paths and globs other layers may import, relative to the layer folder
+   */
+  exports: string[]
+
+  /**
+   * Absolute paths to the layer's auto-import folders, which other layers import implicitly, so are always exported
+   */
+  autoImports: string[]
+
+  /**
+   * Paths and globs other layers may never import, relative to the layer folder
+   */
+  private: string[]
+}
+
+/**
+ * A layer boundary, with exports and private paths expanded to absolute paths
+ */
+interface ResolvedBoundary extends LayerBoundary {
+  exportPaths: string[]
+  privatePaths: string[]
+}
+
+/**
+ * Minimal plugin context interface (Rollup's `this` in `resolveId`)
+ */
+interface ResolveContext {
+  resolve (source: string, importer?: string, options?: Record<string, unknown>): Promise<{ id: string } | null>
+  warn (message: string): void
+  error (message: string): never
+}
+
+/**
+ * Layer index files, i.e. `index.ts`
+ */
+const INDEX_FILE_RX = /^index\.[cm]?[jt]sx?$/
+
+/**
+ * Remove any query from a module id, i.e. `/path/to/file.vue?vue&type=script` => `/path/to/file.vue`
+ */
+function cleanId (id: string): string {
+  return id.split('?')[0]
+}
+
+/**
+ * Determine whether a file is, or is inside, one of a list of paths
+ */
+function isWithin (file: string, paths: string[]): boolean {
+  return paths.some(path => file === path || file.startsWith(path + sep))
+}
+
+/**
+ * Expand layer-relative paths and globs to absolute paths
+ */
+function expandPaths (layerPath: string, patterns: string[]): string[] {
+  return patterns.length > 0
+    ? globSync(patterns, { cwd: layerPath, absolute: true, windowsPathsNoEscape: true })
+    : []
+}
+
+/**
+ * Find the layer containing a file (the deepest, if layers are nested)
+ */
+function findLayer<T extends LayerBoundary> (layers: T[], file: string): T | undefined {
+  return layers
+    .filter(layer => file.startsWith(layer.path + sep))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+}
+
+/**
+ * Check an import from one layer into another, and describe any violation
+ *
+ * @param rootDir     The project root, for readable paths
+ * @param layers      All layers
+ * @param source      The import specifier, after aliases are replaced
+ * @param importer    The absolute path of the importing file
+ * @param file        The absolute path of the imported file
+ * @returns           A readable violation with a suggested fix, or undefined if the import is allowed
+ */
+function checkImport (rootDir: string, layers: ResolvedBoundary[], source: string, importer: string, file: string): string | undefined {
+  // only check imports between different layers
+  const from = findLayer(layers, importer)
+  const to = findLayer(layers, file)
+  if (!from || !to || from === to) {
+    return
+  }
+
+  // target file
+  const path = relative(to.path, file).replace(/\\/g, '/')
+  const isIndex = dirname(file) === to.path && INDEX_FILE_RX.test(basename(file))
+  const isPrivate = isWithin(file, to.privatePaths)
+  const isExported = isIndex || (isWithin(file, to.exportPaths) && !isPrivate)
+  const isRelative = source.startsWith('.')
+  if (isExported && !isRelative) {
+    return
+  }
+
+  // suggested fix
+  const aliasPath = isIndex ? to.alias : `${to.alias}/${path.replace(/\.[mc]?[jt]sx?$/, '')}`
+  const fix = isExported
+    ? to.alias
+      ? `import from "${aliasPath}"`
+      : `register a "layerAlias" for layer "${to.name}", and import from its alias`
+    : isPrivate
+      ? `use layer "${to.name}"'s public API${to.alias ? ` from "${to.alias}"` : ''}`
+      : `export it from ${relative(rootDir, to.path)}/index.ts${to.alias ? ` and import from "${to.alias}"` : ''}, or add "${path}" to the layer's "exports"`
+
+  // readable violation
+  const title = isExported
+    ? `Layer "${from.name}" imports layer "${to.name}" by relative path:`
+    : `Layer "${from.name}" imports ${isPrivate ? 'private' : 'internal'} file "${path}" from layer "${to.name}":`
+  return [
+    title,
+    `  - importer: ${relative(rootDir, importer)}`,
+    `  - import: ${isRelative ? source : relative(rootDir, file)}`,
+    `  - fix: ${fix}`,
+  ].join('\n')
+}
+
+/**
+ * Create a Vite plugin that reports imports which reach into another layer's internals
+ *
+ * @param rootDir   The project root, for readable paths
+ * @param layers    All layers, with their exports and private paths
+ * @param policy    Whether to fail the build or warn
+ */
+export function createLayerBoundariesPlugin (rootDir: string, layers: LayerBoundary[], policy: LayerBoundaryPolicy) {
+  let boundaries: ResolvedBoundary[] = []
+  const reported = new Set<string>()
+
+  return {
+    name: 'wxt-module-layers-boundaries',
+
+    enforce: 'pre' as const,
+
+    buildStart () {
+      // expand paths on each build, to pick up new files
+      boundaries = layers.map(layer => ({
+        ...layer,
+        exportPaths: [...layer.autoImports, ...expandPaths(layer.path, layer.exports)],
+        privatePaths: expandPaths(layer.path, layer.private),
+      }))
+      reported.clear()
+    },
+
+    async resolveId (this: ResolveContext, source: string, importer: string | undefined, options: Record<string, unknown>) {
+      // skip virtual modules and imports from outside layers
+      if (!importer || source.startsWith('\0') || importer.startsWith('\0') || !findLayer(boundaries, cleanId(importer))) {
+        return
+      }
+
+      // resolve with other plugins (aliases are already replaced)
+      const resolved = await this.resolve(source, importer, { ...options, skipSelf: true })
+      if (!resolved) {
+        return
+      }
+
+      // check import
+      const violation = checkImport(rootDir, boundaries, source, cleanId(importer), cleanId(resolved.id))
+      const key = `${importer}:${source}`
+      if (violation && !reported.has(key)) {
+        reported.add(key)
+        if (policy === 'error') {
+          this.error(violation)
+        }
+        else {
+          this.warn(violation)
+        }
+      }
+    },
+  }
+}
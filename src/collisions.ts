@@ -0,0 +1,262 @@
+import { relative } from 'node:path'
+import type { EntrypointInfo, ResolvedPublicFile } from 'wxt'
+import type { EntrypointCollisionPolicy, LayerCollisionPolicy, LayerEntrypointInfo, PublicCollisionPolicy, ResolvedLayer } from './types'
+
+/**
+ * Entrypoint types which can only exist once per extension, so cannot be namespaced
+ */
+const SINGLETON_TYPES: EntrypointInfo['type'][] = [
+  'background',
+  'bookmarks',
+  'devtools',
+  'history',
+  'newtab',
+  'options',
+  'popup',
+]
+
+/**
+ * Result of resolving layer name collisions
+ */
+export interface LayerCollisions {
+  /**
+   * Layers, after applying the collision policy
+   */
+  layers: ResolvedLayer[]
+
+  /**
+   * Collisions which could not be resolved, as readable strings
+   */
+  errors: string[]
+
+  /**
+   * Collisions which were resolved, as readable strings
+   */
+  warnings: string[]
+}
+
+/**
+ * Result of resolving entrypoint collisions
+ */
+export interface EntrypointCollisions {
+  /**
+   * Layer entrypoints to add, after applying the collision policy
+   */
+  entrypoints: LayerEntrypointInfo[]
+
+  /**
+   * Collisions which could not be resolved, as readable strings
+   */
+  errors: string[]
+
+  /**
+   * Collisions which were resolved, as readable strings
+   */
+  warnings: string[]
+}
+
+/**
+ * Detect and resolve layer entrypoints with the same output name as each other, or as existing entrypoints
+ *
+ * @param rootDir       The project root, for readable paths
+ * @param existing      Entrypoints already found by WXT (i.e. `src/entrypoints`)
+ * @param entrypoints   Layer entrypoints (excluding layer backgrounds), in load order
+ * @param policy        How to resolve collisions
+ */
+export function resolveEntrypointCollisions (
+  rootDir: string,
+  existing: EntrypointInfo[],
+  entrypoints: LayerEntrypointInfo[],
+  policy: EntrypointCollisionPolicy
+): EntrypointCollisions {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const output = new Map<LayerEntrypointInfo, LayerEntrypointInfo | undefined>(entrypoints.map(entrypoint => [entrypoint, entrypoint]))
+
+  // group entrypoints by name
+  const names = new Set(entrypoints.map(entrypoint => entrypoint.info.name))
+  for (const name of names) {
+    const project = existing.find(info => info.name === name)
+    const layers = entrypoints.filter(entrypoint => entrypoint.info.name === name)
+    if (layers.length + (project ? 1 : 0) < 2) {
+      continue
+    }
+
+    // readable collision
+    const paths = [
+      ...(project ? [project.inputPath] : []),
+      ...layers.map(entrypoint => entrypoint.info.inputPath),
+    ].map(path => relative(rootDir, path))
+    const message = `"${name}": ${paths.join(', ')}`
+
+    // override: project wins, otherwise last layer in load order wins
+    if (policy === 'override-by-order') {
+      const winner = project ? undefined : layers.at(-1)
+      layers.filter(entrypoint => entrypoint !== winner).forEach(entrypoint => output.set(entrypoint, undefined))
+      warnings.push(`${message} (using ${relative(rootDir, project?.inputPath ?? winner!.info.inputPath)})`)
+    }
+
+    // namespace: prefix layer entrypoints with layer name
+    else if (policy === 'namespace' && !layers.some(entrypoint => SINGLETON_TYPES.includes(entrypoint.info.type))) {
+      const renamed = layers.map(entrypoint => {
+        const namespaced = `${entrypoint.layerName}-${name}`
+        output.set(entrypoint, {
+          ...entrypoint,
+          info: { ...entrypoint.info, name: namespaced },
+        })
+        return namespaced
+      })
+      warnings.push(`${message} (renamed to ${renamed.map(name => `"${name}"`).join(', ')})`)
+    }
+
+    // error
+    else {
+      errors.push(message)
+    }
+  }
+
+  return {
+    entrypoints: entrypoints.map(entrypoint => output.get(entrypoint)).filter(entrypoint => !!entrypoint),
+    errors,
+    warnings,
+  }
+}
+
+/**
+ * Detect and resolve layers with the same name in different sources
+ *
+ * Layer names must be unique, as they determine layer aliases, public folders, runtime keys and background identifiers
+ *
+ * @param rootDir       The project root, for readable paths
+ * @param layers        Discovered layers
+ * @param policy        How to resolve collisions
+ */
+export function resolveLayerCollisions (rootDir: string, layers: ResolvedLayer[], policy: LayerCollisionPolicy): LayerCollisions {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const output = new Map<ResolvedLayer, ResolvedLayer>(layers.map(layer => [layer, layer]))
+
+  // group layers by name
+  const names = new Set(layers.map(layer => layer.name))
+  for (const name of names) {
+    const duplicates = layers.filter(layer => layer.name === name)
+    if (duplicates.length < 2) {
+      continue
+    }
+
+    // readable collision
+    const message = `"${name}": ${duplicates.map(layer => relative(rootDir, layer.path)).join(', ')}`
+
+    // disambiguate: prefix layer name with source name (unless that also collides), i.e. `@acme/auth/auth` => `acme-auth-auth`
+    const renamed = duplicates.map(layer => layer.id.replace(/^@/, '').replace(/\//g, '-'))
+    const isUnique = new Set(renamed).size === renamed.length && !renamed.some(name => names.has(name))
+    if (policy === 'disambiguate' && isUnique) {
+      duplicates.forEach((layer, index) => output.set(layer, { ...layer, name: renamed[index] }))
+      warnings.push(`${message} (renamed to ${renamed.map(name => `"${name}"`).join(', ')})`)
+    }
+
+    // error
+    else {
+      errors.push(message)
+    }
+  }
+
+  return {
+    layers: layers.map(layer => output.get(layer)!),
+    errors,
+    warnings,
+  }
+}
+
+/**
+ * A layer public file, to be copied to the output folder
+ */
+export interface LayerPublicAsset {
+  layerName: string
+  absoluteSrc: string
+  relativeDest: string
+}
+
+/**
+ * Result of resolving public asset collisions
+ */
+export interface PublicAssetCollisions {
+  /**
+   * Layer public assets to add, after applying the collision policy
+   */
+  assets: LayerPublicAsset[]
+
+  /**
+   * Collisions which were not resolved, as readable strings
+   */
+  errors: string[]
+
+  /**
+   * Collisions which were resolved, as readable strings
+   */
+  warnings: string[]
+}
+
+/**
+ * Normalize an output path for comparison, i.e. `/icons/16.png` => `icons/16.png`
+ */
+function normalizeDest (path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\/+/, '')
+}
+
+/**
+ * Detect and resolve layer public assets with the same output path as each other, or as existing assets
+ *
+ * @param rootDir       The project root, for readable paths
+ * @param existing      Public assets already found by WXT (i.e. `src/public`)
+ * @param assets        Layer public assets, in load order
+ * @param policy        How to resolve collisions
+ */
+export function resolvePublicAssetCollisions (
+  rootDir: string,
+  existing: ResolvedPublicFile[],
+  assets: LayerPublicAsset[],
+  policy: PublicCollisionPolicy
+): PublicAssetCollisions {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const output = new Set(assets)
+
+  // group assets by output path
+  const dests = new Set(assets.map(asset => normalizeDest(asset.relativeDest)))
+  for (const dest of dests) {
+    const project = existing.find(file => normalizeDest(file.relativeDest) === dest)
+    const layers = assets.filter(asset => normalizeDest(asset.relativeDest) === dest)
+    if (layers.length + (project ? 1 : 0) < 2) {
+      continue
+    }
+
+    // readable collision
+    const projectSrc = project && 'absoluteSrc' in project
+      ? relative(rootDir, project.absoluteSrc)
+      : '(generated)'
+    const paths = [
+      ...(project ? [projectSrc] : []),
+      ...layers.map(asset => relative(rootDir, asset.absoluteSrc)),
+    ]
+    const message = `"${dest}": ${paths.join(', ')}`
+
+    // error
+    if (policy === 'error') {
+      errors.push(message)
+    }
+
+    // override (or warn): project wins, otherwise last layer in load order wins
+    else {
+      const winner = project ? undefined : layers.at(-1)
+      layers.filter(asset => asset !== winner).forEach(asset => output.delete(asset))
+      warnings.push(`${message} (using ${winner ? relative(rootDir, winner.absoluteSrc) : projectSrc})`)
+    }
+  }
+
+  return {
+    assets: assets.filter(asset => output.has(asset)),
+    errors,
+    warnings,
+  }
+}
@@ -0,0 +1,158 @@
+import { MODULE_NAME } from './background'
+import { type LayerRuntimeData, RUNTIME_MODULE_NAME } from './runtime'
+
+/**
+ * Path of the generated declarations file, relative to the `.wxt/` directory
+ */
+export const DECLARATIONS_PATH = 'types/layers.d.ts'
+
+/**
+ * Data to generate declarations from
+ */
+export interface DeclarationsData {
+  /**
+   * Resolved layer metadata, exported by the runtime module
+   */
+  runtime: LayerRuntimeData
+}
+
+/**
+ * Generate type declarations for the layers virtual modules
+ *
+ * Layer and source aliases are not declared here, as WXT adds them to `.wxt/tsconfig.json` paths
+ *
+ * @param data        Resolved layer data
+ */
+export function generateDeclarations ({ runtime }: DeclarationsData): string {
+  // layer names
+  const names = runtime.layers.length > 0
+    ? runtime.layers.map(name => JSON.stringify(name)).join(' | ')
+    : 'never'
+
+  return `// Generated by wxt-module-layers
+declare module ${JSON.stringify(MODULE_NAME)} {
+  /**
+   * Names of resolved layers
+   */
+  export type LayerName = ${names}
+
+  /**
+   * Status of a layer background
+   */
+  export type LayerStatus = 'pending' | 'ok' | 'error' | 'timeout' | 'skipped'
+
+  /**
+   * Result of running a layer background
+   */
+  export interface LayerResult {
+    name: LayerName
+    status: LayerStatus
+    ms: number
+    error?: unknown
+  }
+
+  /**
+   * Context passed to each layer background's main function
+   */
+  export interface LayerBackgroundContext {
+    /**
+     * The layer name
+     */
+    name: LayerName
+
+    /**
+     * The layer's resolved options (excluding functions, \`entrypoints\`, \`manifest\` and \`manifestPatch\`)
+     */
+    options: Record<string, unknown>
+
+    /**
+     * Values returned by earlier layer backgrounds, keyed by layer name
+     */
+    results: Partial<Record<LayerName, unknown>>
+
+    /**
+     * Provide a value to other layers
+     */
+    provide: typeof provide
+
+    /**
+     * Inject a value provided by another layer
+     */
+    inject: typeof inject
+  }
+
+  /**
+   * Provide a value to other layers
+   */
+  export function provide (key: string, value: unknown): void
+
+  /**
+   * Inject a value provided by another layer (throws if not provided and no fallback passed)
+   */
+  export function inject<T = unknown> (key: string, fallback?: T): T
+
+  /**
+   * Subscribe to layer background failures
+   *
+   * @returns  A function to unsubscribe
+   */
+  export function onLayerError (listener: (result: LayerResult) => void): () => void
+
+  /**
+   * Subscribe to the final status of all layer backgrounds
+   *
+   * @returns  A function to unsubscribe
+   */
+  export function onLayersDone (listener: (results: LayerResult[]) => void): () => void
+
+  /**
+   * Layer backgrounds runner
+   */
+  const layers: {
+    /**
+     * Run all layer backgrounds, in load order
+     */
+    main (): true
+  }
+
+  export default layers
+}
+
+declare module ${JSON.stringify(RUNTIME_MODULE_NAME)} {
+  /**
+   * Names of resolved layers
+   */
+  export type LayerName = ${names}
+
+  /**
+   * Layer names, in load order
+   */
+  export const layers: ${JSON.stringify(runtime.layers)}
+
+  /**
+   * Layer \`order\` options, by layer name
+   */
+  export const layerOrder: ${JSON.stringify(runtime.layerOrder)}
+
+  /**
+   * Output paths of layer entrypoints, by layer name and entrypoint name
+   */
+  export const entrypoints: ${JSON.stringify(runtime.entrypoints)}
+
+  /**
+   * Public folder prefixes, by layer name
+   */
+  export const publicPrefixes: ${JSON.stringify(runtime.publicPrefixes)}
+
+  /**
+   * Get the full URL of a layer entrypoint
+   */
+  export function getEntrypointUrl<L extends keyof typeof entrypoints> (layer: L, name: keyof typeof entrypoints[L]): string
+
+  /**
+   * Get the full URL of a layer public file, i.e. \`layerAsset('auth', 'icons/logo.png')\`
+   */
+  export function layerAsset (layer: LayerName, path: string): string
+}
+`
+}
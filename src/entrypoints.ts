@@ -0,0 +1,191 @@
+import { existsSync, readdirSync, statSync } from 'node:fs'
+import { extname, join, resolve } from 'node:path'
+import type { EntrypointInfo } from 'wxt'
+import type { EntrypointsMode, LayerEntrypointConfig, LayerEntrypoints } from './types'
+
+/**
+ * A layer entrypoint, with the manual config key it was resolved from
+ */
+export type LayerEntrypoint = EntrypointInfo & {
+  /**
+   * The manual entrypoints config key, i.e. `linkedin.content` (undefined if scanned)
+   */
+  key?: string
+}
+
+/**
+ * Scan for entrypoints in a layer's `entrypoints/` folder, using the same rules as WXT
+ */
+export function scanLayerEntrypoints (layerPath: string): EntrypointInfo[] {
+  const entrypointsDir = join(layerPath, 'entrypoints')
+
+  if (!existsSync(entrypointsDir)) {
+    return []
+  }
+
+  // get files, and index files in folders (relative, sorted)
+  const relativePaths: string[] = []
+  for (const entry of readdirSync(entrypointsDir)) {
+    const fullPath = join(entrypointsDir, entry)
+    if (statSync(fullPath).isDirectory()) {
+      relativePaths.push(...readdirSync(fullPath).map(file => `${entry}/${file}`))
+    }
+    else {
+      relativePaths.push(entry)
+    }
+  }
+  relativePaths.sort()
+
+  // match paths to entrypoint types (skipping tests and type declarations)
+  const entrypoints: EntrypointInfo[] = []
+  for (const relativePath of relativePaths) {
+    const type = IGNORED_RX.test(relativePath)
+      ? undefined
+      : getEntrypointType(relativePath)
+    if (type) {
+      entrypoints.push({
+        name: relativePath.split(/[./]/, 2)[0],
+        inputPath: join(entrypointsDir, relativePath),
+        type,
+      })
+    }
+  }
+
+  // skip script index files in folders which also have an index.html
+  return entrypoints.filter(({ name, inputPath }) => {
+    if (inputPath.endsWith('.html') || !/index\..+$/.test(inputPath)) {
+      return true
+    }
+    return !entrypoints.some(entrypoint => entrypoint.name === name && entrypoint.inputPath.endsWith('index.html'))
+  })
+}
+
+/**
+ * Resolve entrypoints from layer entrypoints config
+ *
+ * @param config
+ * @param layerPath
+ */
+export function resolveEntrypoints (config: LayerEntrypoints, layerPath: string): LayerEntrypoint[] {
+  // resolved entrypoints
+  const entrypoints: LayerEntrypoint[] = []
+
+  // loop over config object
+  for (const [key, value] of Object.entries(config)) {
+    const path = typeof value === 'object' ? value.path : value
+    if (path) {
+      const inputPath = resolve(layerPath, path)
+      if (existsSync(inputPath)) {
+        const name = getEntrypointName(key)
+        const type = getEntrypointType(`${key}${extname(inputPath)}`) ?? 'unlisted-script'
+        entrypoints.push({
+          inputPath,
+          name,
+          type,
+          key,
+        })
+      }
+    }
+  }
+
+  // return final mapped entrypoints
+  return entrypoints
+}
+
+/**
+ * Get the entrypoint name from an entrypoint key or scanned name, i.e. `linkedin.content` => `linkedin`
+ */
+function getEntrypointName (key: string): string {
+  return key.split('.')[0]
+}
+
+/**
+ * Get the object-form config for a manual entrypoint, if it has one
+ *
+ * @param config        Manual entrypoints config, if any
+ * @param key           The entrypoint's config key, i.e. `linkedin.content` (undefined if scanned)
+ */
+export function getEntrypointConfig (config: LayerEntrypoints | undefined, key: string | undefined): LayerEntrypointConfig | undefined {
+  const value = key
+    ? config?.[key as keyof LayerEntrypoints]
+    : undefined
+  return value && typeof value === 'object'
+    ? value
+    : undefined
+}
+
+/**
+ * Get entrypoints for a layer, by scanning, manual config, or both
+ *
+ * @param layerPath     The absolute path to the layer
+ * @param config        Manual entrypoints config, if any
+ * @param mode          Whether manual entrypoints replace or merge with scanned entrypoints
+ */
+export function getLayerEntrypoints (layerPath: string, config?: LayerEntrypoints, mode: EntrypointsMode = 'replace'): LayerEntrypoint[] {
+  // no config: scan only
+  if (!config) {
+    return scanLayerEntrypoints(layerPath)
+  }
+
+  // replace: manual only
+  const manual = resolveEntrypoints(config, layerPath)
+  if (mode === 'replace') {
+    return manual
+  }
+
+  // merge: manual entrypoints override, and false values exclude, scanned entrypoints with the same name
+  const names = new Set(Object.keys(config).map(getEntrypointName))
+  const scanned = scanLayerEntrypoints(layerPath)
+    .filter(entrypoint => !names.has(getEntrypointName(entrypoint.name)))
+  return [...scanned, ...manual]
+}
+
+/**
+ * Files which are never entrypoints, i.e. `utils.test.ts`, `types.d.ts`
+ */
+const IGNORED_RX = /\.(?:test|spec)\.[cm]?[jt]sx?$|\.d\.[cm]?ts$/
+
+/**
+ * Entrypoint path patterns (relative to the entrypoints folder) and their types, in priority order
+ *
+ * Mirrors WXT's own discovery rules, so layer entrypoints are found as they are in `src/entrypoints`, except:
+ *
+ * - test files and type declarations are skipped (WXT treats them as unlisted scripts)
+ * - `.mts` scripts are supported
+ */
+const ENTRYPOINT_PATTERNS: Array<[RegExp, EntrypointInfo['type']]> = (() => {
+  const name = '[^./][^/]*'
+  const html = 'html'
+  const script = '(?:[jt]sx?|mts)'
+  const style = '(?:css|scss|sass|less|styl|stylus)'
+  const pattern = (file: string, ext: string) => new RegExp(`^${file}(?:/index)?\\.${ext}$`)
+  return [
+    [pattern('sandbox', html), 'sandbox'],
+    [pattern(`${name}\\.sandbox`, html), 'sandbox'],
+    [pattern('bookmarks', html), 'bookmarks'],
+    [pattern('history', html), 'history'],
+    [pattern('newtab', html), 'newtab'],
+    [pattern('sidepanel', html), 'sidepanel'],
+    [pattern(`${name}\\.sidepanel`, html), 'sidepanel'],
+    [pattern('devtools', html), 'devtools'],
+    [pattern('background', '(?:[jt]s|mts)'), 'background'],
+    [pattern('content', script), 'content-script'],
+    [pattern(`${name}\\.content`, script), 'content-script'],
+    [pattern('content', style), 'content-script-style'],
+    [pattern(`${name}\\.content`, style), 'content-script-style'],
+    [pattern('popup', html), 'popup'],
+    [pattern('options', html), 'options'],
+    [pattern(name, html), 'unlisted-page'],
+    [pattern(name, script), 'unlisted-script'],
+    [pattern(name, style), 'unlisted-style'],
+  ]
+})()
+
+/**
+ * Get the entrypoint type of a path, relative to an entrypoints folder, i.e. `linkedin.content/index.ts`
+ *
+ * @returns  The type, or undefined if WXT would not treat the path as an entrypoint
+ */
+function getEntrypointType (relativePath: string): EntrypointInfo['type'] | undefined {
+  return ENTRYPOINT_PATTERNS.find(([rx]) => rx.test(relativePath))?.[1]
+}
@@ -1,13 +1,30 @@
-import { existsSync, readdirSync, statSync } from 'node:fs'
-import { basename, extname, join, resolve } from 'node:path'
-import { type EntrypointInfo } from 'wxt'
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import { createRequire } from 'node:module'
 import { loadConfig } from 'c12'
+import { globSync, hasMagic } from 'glob'
 import { toArray } from '@davestewart/wxt-utils'
-import { LayerEntrypoints, LayerOptions, SourceOptions } from './types'
+import { LayerOptions, PackageSourceOptions, SourceOptions } from './types'
 
-export function resolveSources (rootDir: string, sources: undefined | string | Array<SourceOptions | string>): SourceOptions[] {
-  return toArray(sources ?? 'layers/*')
-    .map(input => typeof input === 'string' ? { source: input } : input)
+export function resolveSources (rootDir: string, sources: undefined | string | Array<SourceOptions | PackageSourceOptions | string>): SourceOptions[] {
+  const inputs = toArray(sources ?? 'layers/*')
+
+  // negated string sources are ignored by all sources
+  const ignore = inputs
+    .filter((input): input is string => typeof input === 'string' && input.startsWith('!'))
+    .map(input => resolve(rootDir, input.slice(1)))
+
+  return inputs
+    .filter(input => !(typeof input === 'string' && input.startsWith('!')))
+    .flatMap(input => {
+      if (typeof input === 'string') {
+        return { source: input }
+      }
+      if (!('source' in input)) {
+        return resolvePackageSources(rootDir, input)
+      }
+      return input
+    })
     .map(input => {
       const { source, sourceAlias } = input
       const path = resolve(rootDir, source)
@@ -15,165 +32,158 @@ export function resolveSources (rootDir: string, sources: undefined | string | A
         ...input,
         sourceAlias: sourceAlias ?? '#{name}',
         source: path,
+        ignore: [
+          ...ignore,
+          ...toArray(input.ignore ?? []).map(pattern => resolve(rootDir, pattern)),
+        ],
       }
     })
 }
 
 /**
- * Get layer paths from a source configuration
+ * Resolve the folder of an installed package from the project root
+ *
+ * @throws Error if the package cannot be resolved
  */
-export function getLayerPaths (sourceConfig: SourceOptions): string[] {
-  const absSource = resolve(sourceConfig.source)
-  const layerPaths: string[] = []
-
-  // wildcard
-  if (absSource.endsWith('/*')) {
-    const absDir = absSource.slice(0, -2)
-    if (existsSync(absDir)) {
-      const absLayers = readdirSync(absDir)
-        .map(name => join(absDir, name))
-        .filter(absPath => statSync(absPath).isDirectory())
-      layerPaths.push(...absLayers)
+function resolvePackageDir (rootDir: string, name: string): string {
+  const require = createRequire(join(rootDir, 'package.json'))
+
+  // resolve package.json directly
+  try {
+    return dirname(require.resolve(`${name}/package.json`))
+  }
+  catch {
+    // package.json may not be exported
+  }
+
+  // resolve package entry, then walk up to the package's package.json
+  try {
+    let dir = dirname(require.resolve(name))
+    while (dir !== dirname(dir)) {
+      const pkgPath = join(dir, 'package.json')
+      if (existsSync(pkgPath) && JSON.parse(readFileSync(pkgPath, 'utf8')).name === name) {
+        return dir
+      }
+      dir = dirname(dir)
     }
   }
-  else if (existsSync(absSource)) {
-    layerPaths.push(absSource)
+  catch {
+    // package not resolvable
   }
 
-  return layerPaths
+  throw new Error(`Unable to resolve layer package "${name}" from ${rootDir}; is it installed?`)
 }
 
 /**
- * Load layer config file if it exists
+ * Resolve a package source to one or more path sources, using the package's `wxtLayer` field
  */
-export async function loadLayerConfig (layerPath: string): Promise<LayerOptions | null> { // | typeof defineLayer
-  try {
-    const { config } = await loadConfig({
-      name: 'layer-config',
-      cwd: layerPath,
-      configFile: 'layer.config',
-    })
-    return config || null
-  }
-  catch (error) {
-    console.warn(`Failed to load config for layer ${basename(layerPath)}:`, error)
-    return null
-  }
+export function resolvePackageSources (rootDir: string, input: PackageSourceOptions): SourceOptions[] {
+  const { package: name, ...options } = input
+  const pkgDir = resolvePackageDir(rootDir, name)
+  const pkg = JSON.parse(readFileSync(join(pkgDir, 'package.json'), 'utf8'))
+  const layerRoots: string[] = toArray(pkg.wxtLayer ?? '.')
+  return layerRoots.map(layerRoot => ({
+    ...options,
+    package: name,
+    source: resolve(pkgDir, layerRoot),
+  }))
 }
 
 /**
- * Scan for entrypoints in a layer directory
+ * Layer config file names
  */
-export function scanLayerEntrypoints (layerPath: string): EntrypointInfo[] {
-  const entrypointsDir = join(layerPath, 'entrypoints')
+export const LAYER_CONFIG_RX = /^layer\.config\.[cm]?[jt]s$/
 
-  if (!existsSync(entrypointsDir)) {
-    return []
-  }
-
-  const entrypoints: EntrypointInfo[] = []
-
-  // scan for all potential entrypoint files/directories
-  const entries = readdirSync(entrypointsDir)
-  for (const entry of entries) {
-    // variables
-    let inputPath: string = ''
-    let name: string = ''
-
-    // process
-    const fullPath: string = join(entrypointsDir, entry)
-    const stat = statSync(fullPath)
-
-    // entrypoint is a directory
-    if (stat.isDirectory()) {
-      const entries = readdirSync(fullPath)
-      const rx = /^(index)\.(ts|tsx|js|jsx|html|css|scss|sass|less)$/
-      const indexFile = entries.find(entry => rx.test(entry))
-      if (indexFile) {
-        inputPath = join(fullPath, indexFile)
-        name = entry
-      }
-    }
+/**
+ * Convert a path to a glob pattern
+ */
+function toPattern (path: string): string {
+  return path.replace(/\\/g, '/')
+}
 
-    // entrypoint is a file
-    else {
-      inputPath = join(entrypointsDir, entry)
-      name = basename(entry, extname(entry))
-    }
+/**
+ * Get the static folder of a source, i.e. `/project/layers` for `/project/layers/*`
+ */
+export function getSourceDir (sourceConfig: SourceOptions): string {
+  const segments = toPattern(sourceConfig.source).split('/')
+  const index = segments.findIndex(segment => hasMagic(segment, { magicalBraces: true }))
+  return index > -1
+    ? resolve(segments.slice(0, index).join('/') || '/')
+    : resolve(sourceConfig.source)
+}
 
-    // add entrypoint
-    if (inputPath && name) {
-      entrypoints.push({
-        name,
-        inputPath,
-        type: determineEntrypointType(name, extname(inputPath)),
-      })
-    }
+/**
+ * Get the unique name of a source
+ *
+ * - package sources are named after the package, i.e. `@acme/wxt-layer-auth`
+ * - project sources are named after their folder relative to the root, i.e. `layers` for `/project/layers/*`
+ * - other sources are named after their folder, i.e. `shared` for `/libs/shared/*`
+ */
+export function getSourceName (rootDir: string, sourceConfig: SourceOptions): string {
+  if (sourceConfig.package) {
+    return sourceConfig.package
   }
-
-  // return final mapped entrypoint infos
-  return entrypoints
+  const sourceDir = getSourceDir(sourceConfig)
+  const path = relative(rootDir, sourceDir)
+  return path && !path.startsWith('..') && !isAbsolute(path)
+    ? path.replace(/\\/g, '/')
+    : basename(sourceDir)
 }
 
 /**
- * Resolve entrypoints from layer entrypoints config
+ * Get layer paths from a source configuration
  *
- * @param config
- * @param layerPath
+ * Sources may be a single folder, or a glob matching layer folders (i.e. `layers/*`, `features/{auth,billing}`)
+ * or layer config files (i.e. `packages/**\/layer.config.ts`)
+ *
+ * Folders starting with `_` or `.` and `node_modules` folders below the source folder are ignored, as are
+ * folders matching the source's `ignore` patterns
  */
-export function resolveEntrypoints (config: LayerEntrypoints, layerPath: string): EntrypointInfo[] {
-  // resolved entrypoints
-  const entrypoints: EntrypointInfo[] = []
-
-  // loop over config object
-  for (const [key, path] of Object.entries(config)) {
-    if (path) {
-      const inputPath = resolve(layerPath, path)
-      if (existsSync(inputPath)) {
-        const [name] = key.split('.') as [string, string | undefined]
-        const type = determineEntrypointType(key, extname(inputPath))
-        entrypoints.push({
-          inputPath,
-          name,
-          type,
-        })
-      }
-    }
+export function getLayerPaths (sourceConfig: SourceOptions): string[] {
+  const absSource = resolve(sourceConfig.source)
+
+  // single folder
+  if (!hasMagic(toPattern(absSource), { magicalBraces: true })) {
+    return existsSync(absSource) && statSync(absSource).isDirectory()
+      ? [absSource]
+      : []
   }
 
-  // return final mapped entrypoints
-  return entrypoints
+  // glob: matched folders are layers, as are the folders of matched config files
+  // (ignored folders are also ignored with their contents, so config files in them are skipped)
+  const sourceDir = getSourceDir(sourceConfig)
+  const ignore = toArray(sourceConfig.ignore ?? []).map(toPattern)
+  const layerPaths = globSync(toPattern(absSource), {
+    absolute: true,
+    ignore: [
+      `${toPattern(sourceDir)}/**/node_modules/**`,
+      ...ignore.flatMap(pattern => [pattern, `${pattern}/**`]),
+    ],
+    windowsPathsNoEscape: true,
+  })
+    .map(path => LAYER_CONFIG_RX.test(basename(path)) ? dirname(path) : path)
+    .filter(path => statSync(path).isDirectory())
+    .filter(path => !relative(sourceDir, path).split(sep).some(segment => /^[_.]/.test(segment)))
+
+  return [...new Set(layerPaths)].sort()
 }
 
 /**
- * Determine entrypoint type from name and extension
+ * Load layer config file if it exists
  */
-function determineEntrypointType (name: string, ext: string) {
-  // css entrypoints
-  if (['.css', '.scss', '.sass', '.less', '.styl', '.stylus'].includes(ext)) {
-    return 'unlisted-style'
+export async function loadLayerConfig (layerPath: string): Promise<LayerOptions | null> { // | typeof defineLayer
+  try {
+    const { config } = await loadConfig({
+      name: 'layer-config',
+      cwd: layerPath,
+      configFile: 'layer.config',
+    })
+    return config || null
   }
-
-  // html entrypoints
-  if (ext === '.html') {
-    // listed HTML entrypoints
-    if (name === 'popup') return 'popup'
-    if (name === 'options') return 'options'
-    if (name === 'newtab') return 'newtab'
-    if (name === 'devtools') return 'devtools'
-    if (name === 'bookmarks') return 'bookmarks'
-    if (name === 'history') return 'history'
-    if (name.endsWith('.sidepanel') || name === 'sidepanel') return 'sidepanel'
-    if (name.endsWith('.sandbox') || name === 'sandbox') return 'sandbox'
-
-    return 'unlisted-page'
+  catch (error) {
+    console.warn(`Failed to load config for layer ${basename(layerPath)}:`, error)
+    return null
   }
-
-  // script entrypoints
-  if (name === 'background') return 'background'
-  if (name.endsWith('.content') || name === 'content') return 'content-script'
-
-  return 'unlisted-script'
 }
 
 /**
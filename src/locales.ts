@@ -0,0 +1,221 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { parseJSON, parseYAML } from 'confbox'
+import type { ResolvedPublicFile } from 'wxt'
+
+/**
+ * A single message in a `_locales/<lang>/messages.json` file
+ */
+export interface LocaleMessage {
+  message: string
+  description?: string
+  placeholders?: Record<string, { content: string, example?: string }>
+}
+
+/**
+ * Messages by key, i.e. the contents of a `messages.json` file
+ */
+export type LocaleMessages = Record<string, LocaleMessage>
+
+/**
+ * A layer locales folder, to be merged into `_locales`
+ */
+export interface LayerLocales {
+  layerName: string
+  localesPath: string
+  prefix: string
+}
+
+/**
+ * Result of merging layer locales
+ */
+export interface MergedLocales {
+  /**
+   * Merged messages, by language
+   */
+  messages: Record<string, LocaleMessages>
+
+  /**
+   * Duplicate keys, as readable strings
+   */
+  errors: string[]
+
+  /**
+   * Languages missing from some layers, as readable strings
+   */
+  warnings: string[]
+}
+
+/**
+ * Layer locale files, i.e. `en.json`, `pt_BR.yml`
+ */
+const LOCALE_FILE_RX = /^([a-z]{2,3}(?:[_-][a-z0-9]+)*)\.(json|ya?ml)$/i
+
+/**
+ * Project locale files, i.e. `_locales/en/messages.json`
+ */
+const MESSAGES_FILE_RX = /^\/*_locales[/\\]([^/\\]+)[/\\]messages\.json$/
+
+/**
+ * Messages from a single file, with the file path for readable problems
+ */
+interface LocaleSource {
+  lang: string
+  path: string
+  messages: LocaleMessages
+}
+
+/**
+ * Normalize a language code to Chrome's format, i.e. `pt-br` => `pt_BR`
+ */
+function normalizeLang (lang: string): string {
+  const [language, ...rest] = lang.split(/[_-]/)
+  return [language.toLowerCase(), ...rest.map(part => part.toUpperCase())].join('_')
+}
+
+/**
+ * Normalize a message key prefix to valid message name characters, i.e. `some-feature_` => `some_feature_`
+ */
+export function normalizeLocalePrefix (prefix: string): string {
+  return prefix.replace(/[^a-zA-Z0-9_]/g, '_')
+}
+
+/**
+ * Normalize parsed messages, expanding string shorthand to message objects
+ *
+ * @usage
+ *
+ * ```yaml
+ * title: Sign in            # { "title": { "message": "Sign in" } }
+ * greeting:
+ *   message: Hello $NAME$
+ *   placeholders: ...
+ * ```
+ */
+function normalizeMessages (data: unknown, prefix: string): LocaleMessages {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('messages should be an object')
+  }
+  const messages: LocaleMessages = {}
+  for (const [key, value] of Object.entries(data)) {
+    messages[prefix + key] = value && typeof value === 'object'
+      ? value as LocaleMessage
+      : { message: String(value) }
+  }
+  return messages
+}
+
+/**
+ * Read messages from a layer's locales folder
+ *
+ * @throws Error if a file cannot be parsed
+ */
+function readLayerLocales ({ localesPath, prefix }: LayerLocales): LocaleSource[] {
+  return readdirSync(localesPath)
+    .sort()
+    .flatMap(file => {
+      const matches = file.match(LOCALE_FILE_RX)
+      if (!matches) {
+        return []
+      }
+      const path = join(localesPath, file)
+      const text = readFileSync(path, 'utf8')
+      try {
+        const data = matches[2] === 'json'
+          ? parseJSON(text)
+          : parseYAML(text)
+        return { lang: normalizeLang(matches[1]), path, messages: normalizeMessages(data, prefix) }
+      }
+      catch (error) {
+        throw new Error(`Invalid locale file "${path}": ${error instanceof Error ? error.message : error}`)
+      }
+    })
+}
+
+/**
+ * Read messages from the project's existing `_locales` files (i.e. `src/public/_locales`)
+ */
+function readProjectLocales (files: ResolvedPublicFile[]): LocaleSource[] {
+  return files.flatMap(file => {
+    const matches = file.relativeDest.match(MESSAGES_FILE_RX)
+    if (!matches) {
+      return []
+    }
+    const [path, text] = 'absoluteSrc' in file
+      ? [file.absoluteSrc, readFileSync(file.absoluteSrc, 'utf8')]
+      : [file.relativeDest, file.contents]
+    return { lang: matches[1], path, messages: JSON.parse(text) }
+  })
+}
+
+/**
+ * Determine whether a public file is a project `_locales` messages file
+ */
+export function isMessagesFile (file: ResolvedPublicFile): boolean {
+  return MESSAGES_FILE_RX.test(file.relativeDest)
+}
+
+/**
+ * Find a layer's locales folder, if it has one
+ */
+export function findLocalesFolder (layerPath: string): string | undefined {
+  const path = join(layerPath, 'locales')
+  return existsSync(path)
+    ? path
+    : undefined
+}
+
+/**
+ * Merge layer locales with the project's existing `_locales` messages
+ *
+ * - message keys are compared case-insensitively, as browsers do
+ * - languages supported by some layers (or the project) but not others are reported
+ *
+ * @param rootDir     The project root, for readable paths
+ * @param existing    Public files already found by WXT (i.e. `src/public`)
+ * @param layers      Layer locales folders, in load order
+ */
+export function mergeLayerLocales (rootDir: string, existing: ResolvedPublicFile[], layers: LayerLocales[]): MergedLocales {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const messages: Record<string, LocaleMessages> = {}
+
+  // read all sources
+  const project = readProjectLocales(existing)
+  const sources: Array<{ name: string, locales: LocaleSource[] }> = [
+    ...(project.length > 0 ? [{ name: 'project', locales: project }] : []),
+    ...layers.map(layer => ({ name: `"${layer.layerName}"`, locales: readLayerLocales(layer) })),
+  ]
+
+  // merge messages, tracking which file added each key
+  const owners = new Map<string, { key: string, paths: string[] }>()
+  for (const { locales } of sources) {
+    for (const { lang, path, messages: localeMessages } of locales) {
+      messages[lang] ??= {}
+      for (const [key, message] of Object.entries(localeMessages)) {
+        const id = `${lang}:${key.toLowerCase()}`
+        const owner = owners.get(id) ?? { key, paths: [] }
+        owners.set(id, { ...owner, paths: [...owner.paths, relative(rootDir, path)] })
+        messages[lang][key] = message
+      }
+    }
+  }
+
+  // duplicate keys
+  for (const { key, paths } of owners.values()) {
+    if (paths.length > 1) {
+      errors.push(`"${key}": ${paths.join(', ')}`)
+    }
+  }
+
+  // missing languages
+  const langs = Object.keys(messages).sort()
+  for (const { name, locales } of sources) {
+    const missing = langs.filter(lang => !locales.some(locale => locale.lang === lang))
+    if (missing.length > 0) {
+      warnings.push(`${name} has no ${missing.map(lang => `"${lang}"`).join(', ')} messages`)
+    }
+  }
+
+  return { messages, errors, warnings }
+}
@@ -0,0 +1,132 @@
+import type { Browser } from 'wxt/browser'
+import { normalizePublicPrefix } from './runtime'
+import type { LayerWebAccessible, ManifestPatch } from './types'
+
+/**
+ * A manifest patch from a specific layer
+ */
+export interface LayerManifestPatch {
+  layerName: string
+  patch: ManifestPatch
+}
+
+type Dict = Record<string, any>
+
+/**
+ * Determine whether a value is a plain object
+ */
+function isObject (value: unknown): value is Dict {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Union two arrays, removing duplicate values (including duplicate objects)
+ */
+function union (target: unknown[], source: unknown[]): unknown[] {
+  const keys = new Set(target.map(value => JSON.stringify(value)))
+  const output = [...target]
+  for (const value of source) {
+    const key = JSON.stringify(value)
+    if (!keys.has(key)) {
+      keys.add(key)
+      output.push(value)
+    }
+  }
+  return output
+}
+
+/**
+ * Deep-merge layer manifest patches into the manifest, in layer order
+ *
+ * - objects are merged recursively
+ * - arrays (i.e. `permissions`, `host_permissions`) are unioned and de-duplicated
+ * - scalars are set, with differing values from multiple layers reported as conflicts
+ *
+ * @returns  A list of readable conflicts, if any
+ */
+export function mergeManifestPatches (manifest: Browser.runtime.Manifest, patches: LayerManifestPatch[]): string[] {
+  const conflicts: string[] = []
+  const owners = new Map<string, string>()
+
+  function merge (target: Dict, source: Dict, path: string, layerName: string) {
+    for (const [key, value] of Object.entries(source)) {
+      const keyPath = path ? `${path}.${key}` : key
+      if (value === undefined) {
+        continue
+      }
+
+      if (Array.isArray(value)) {
+        target[key] = union(Array.isArray(target[key]) ? target[key] : [], value)
+      }
+      else if (isObject(value)) {
+        if (!isObject(target[key])) {
+          target[key] = {}
+        }
+        merge(target[key], value, keyPath, layerName)
+      }
+      else {
+        const owner = owners.get(keyPath)
+        if (owner && target[key] !== value) {
+          conflicts.push(`${keyPath}: "${owner}" sets ${JSON.stringify(target[key])}, "${layerName}" sets ${JSON.stringify(value)}`)
+        }
+        target[key] = value
+        owners.set(keyPath, layerName)
+      }
+    }
+  }
+
+  for (const { layerName, patch } of patches) {
+    merge(manifest, patch, '', layerName)
+  }
+
+  return conflicts
+}
+
+/**
+ * Web accessible resources from a specific layer
+ */
+export interface LayerWebAccessibleResources {
+  layerName: string
+  resources: string[]
+  matches: string[]
+}
+
+/**
+ * Resolve a layer's `webAccessible` option to resource globs, scoped to its public prefix
+ *
+ * @param value     The layer's webAccessible option
+ * @param prefix    The layer's interpolated public prefix
+ * @returns         Resources and matches, or undefined if disabled
+ */
+export function resolveWebAccessible (value: LayerWebAccessible | undefined, prefix: string): Omit<LayerWebAccessibleResources, 'layerName'> | undefined {
+  if (!value) {
+    return
+  }
+  const { resources = ['*'], matches = ['<all_urls>'] } = Array.isArray(value)
+    ? { resources: value }
+    : value === true
+      ? {}
+      : value
+  const folder = normalizePublicPrefix(prefix)
+  return {
+    resources: resources.map(glob => [folder, glob.replace(/^\/+/, '')].filter(Boolean).join('/')),
+    matches,
+  }
+}
+
+/**
+ * Add layer web accessible resources to the manifest, in MV2 or MV3 format
+ *
+ * - MV2: resource globs are added to a single list, and matches are ignored
+ * - MV3: each layer adds an entry with its own resources and matches
+ */
+export function addWebAccessibleResources (manifest: Browser.runtime.Manifest, entries: LayerWebAccessibleResources[], manifestVersion: 2 | 3): void {
+  if (entries.length === 0) {
+    return
+  }
+  const target = manifest as Dict
+  const existing: unknown[] = target.web_accessible_resources ?? []
+  target.web_accessible_resources = manifestVersion === 2
+    ? union(existing, entries.flatMap(entry => entry.resources))
+    : union(existing, entries.map(({ resources, matches }) => ({ resources, matches })))
+}
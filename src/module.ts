@@ -1,20 +1,57 @@
 import { basename, join, relative } from 'node:path'
-import { existsSync } from 'node:fs'
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs'
 import { globSync } from 'glob'
 import { makeLogger, plural } from '@davestewart/wxt-utils'
 import pc from 'picocolors'
 import 'wxt'
-import type { EntrypointInfo, WxtResolvedUnimportOptions } from 'wxt'
+import type { WxtResolvedUnimportOptions } from 'wxt'
 import { defineWxtModule } from 'wxt/modules'
+import { createLayerBackgroundsPlugin, type LayerBackgroundsOptions, MODULE_NAME } from './background'
+import { createLayerBoundariesPlugin, type LayerBoundary } from './boundaries'
+import { type LayerPublicAsset, resolveEntrypointCollisions, resolveLayerCollisions, resolvePublicAssetCollisions } from './collisions'
+import { DECLARATIONS_PATH, generateDeclarations } from './declarations'
+import { getEntrypointConfig, getLayerEntrypoints } from './entrypoints'
 import {
   getLayerPaths,
+  getSourceDir,
+  getSourceName,
   loadLayerConfig,
-  resolveEntrypoints,
   resolveLayerAutoImportDirs,
   resolveSources,
-  scanLayerEntrypoints,
 } from './filesystem'
-import { LayerOptions, LayersModuleOptions, SourceOptions } from './types'
+import { findLocalesFolder, isMessagesFile, type LayerLocales, mergeLayerLocales, normalizeLocalePrefix } from './locales'
+import {
+  addWebAccessibleResources,
+  type LayerManifestPatch,
+  type LayerWebAccessibleResources,
+  mergeManifestPatches,
+  resolveWebAccessible,
+} from './manifest'
+import { groupLayers, sortLayers } from './ordering'
+import { applyEntrypointOverrides } from './overrides'
+import {
+  createPermissionReport,
+  diffPermissions,
+  formatPermissionReport,
+  getDisallowedPermissions,
+  getPermissionsReportName,
+  recordPermissions,
+  snapshotPermissions,
+} from './permissions'
+import { isInProfile, resolveProfile } from './profiles'
+import { generateLayersReport, LAYERS_REPORT } from './report'
+import {
+  createLayerRuntimePlugin,
+  getEntrypointOutputPath,
+  type LayerEntrypointPaths,
+  type LayerRuntimeData,
+  normalizePublicPrefix,
+  PREFIXABLE_TYPES,
+} from './runtime'
+import { type BuildTarget, formatTarget, getExcludeReason } from './targets'
+import { LayerEntrypointInfo, LayerEntrypointOverrides, LayerEntrypoints, LayerOptions, LayersModuleOptions, LayersProfile, ResolvedLayer, SourceOptions } from './types'
+import { validateLayerConfig, validateSources } from './validation'
+import { watchLayers } from './watcher'
 import { readFileSync } from 'fs'
 
 // ---------------------------------------------------------------------------------------------------------------------
@@ -32,8 +69,11 @@ declare module 'wxt' {
   interface WxtHooks {
     /**
      * Called after layers have been resolved
+     *
+     * @param layerPaths  Absolute paths of the resolved layers, in load order
+     * @param profile     The active profile and the layers it selected, if any
      */
-    'layers:resolved': (layerPaths: string[]) => void
+    'layers:resolved': (layerPaths: string[], profile?: LayersProfile) => void
   }
 }
 
@@ -65,8 +105,20 @@ export const module = defineWxtModule({
     const Logger = makeLogger(wxt.logger, 'layers', options.logLevel ?? 'info')
 
     // helpers
-    function interpolateLayerName (template: string, layerName: string): string {
-      return template.replace(/\{name}/g, layerName)
+    function interpolateLayerName (template: string, layerName: string, sourceName: string = ''): string {
+      return template
+        .replace(/\{name}/g, layerName)
+        .replace(/\{source}/g, sourceName)
+    }
+
+    /**
+     * Merge entrypoints configs, with later configs overriding earlier ones
+     */
+    function mergeEntrypoints (...configs: Array<LayerEntrypoints | undefined>): LayerEntrypoints | undefined {
+      const defined = configs.filter(config => config)
+      return defined.length > 0
+        ? Object.assign({}, ...defined)
+        : undefined
     }
 
     /**
@@ -78,6 +130,10 @@ export const module = defineWxtModule({
       sourceConfig: SourceOptions,
       moduleOptions: LayersModuleOptions,
     ): LayerOptions {
+      const entrypointsMode = layerConfig?.entrypointsMode ??
+        sourceConfig?.entrypointsMode ??
+        moduleOptions.entrypointsMode ??
+        'replace'
       return {
         layerAlias: layerConfig?.layerAlias ??
           sourceConfig?.layerAlias ??
@@ -87,53 +143,126 @@ export const module = defineWxtModule({
           sourceConfig?.publicPrefix ??
           moduleOptions.publicPrefix ??
           '{name}',
+        webAccessible: layerConfig?.webAccessible ??
+          sourceConfig?.webAccessible ??
+          moduleOptions.webAccessible,
+        localePrefix: layerConfig?.localePrefix ??
+          sourceConfig?.localePrefix ??
+          moduleOptions.localePrefix ??
+          '',
+        entrypointPrefix: layerConfig?.entrypointPrefix ??
+          sourceConfig?.entrypointPrefix ??
+          moduleOptions.entrypointPrefix ??
+          '',
         autoImports: layerConfig?.autoImports ??
           sourceConfig?.autoImports ??
           moduleOptions.autoImports ??
           [],
-        entrypoints: layerConfig?.entrypoints ??
-          sourceConfig?.entrypoints ??
-          moduleOptions.entrypoints ??
-          undefined,
+        entrypoints: entrypointsMode === 'merge'
+          ? mergeEntrypoints(moduleOptions.entrypoints, sourceConfig?.entrypoints, layerConfig?.entrypoints)
+          : layerConfig?.entrypoints ??
+            sourceConfig?.entrypoints ??
+            moduleOptions.entrypoints ??
+            undefined,
+        entrypointsMode,
         order: layerConfig?.order ?? 50,
+        dependsOn: layerConfig?.dependsOn ?? [],
+        exports: layerConfig?.exports,
+        private: layerConfig?.private,
+        backgroundTimeout: layerConfig?.backgroundTimeout,
+        include: layerConfig?.include,
+        exclude: layerConfig?.exclude,
         manifest: layerConfig?.manifest,
+        manifestPatch: layerConfig?.manifestPatch,
       }
     }
 
     /**
      * Set an alias for a path
      * @param path    The absolute path to the layer or layers folder
-     * @param alias   Specific alias config (false to skip, true to use default, string to use custom)
+     * @param key     Interpolated alias (empty to skip)
      * @param type
+     * @param pkg     The package a source was resolved from, as sources from the same package may share an alias
+     * @throws Error if another layer already registered the alias (sources only warn, and keep the first alias)
      */
-    function setAlias (path: string, alias?: string | undefined, type: 'source' | 'layer' = 'layer') {
-      if (!alias) {
+    function setAlias (path: string, key?: string | undefined, type: 'source' | 'layer' = 'layer', pkg?: string) {
+      if (!key) {
         return
       }
 
       // variable
-      const key = interpolateLayerName(alias, basename(path))
       const indent = type === 'source' ? '  ' : '    '
       const prefix = `${indent}- alias: `
+      if (registeredAliases[key] && registeredAliases[key] !== path) {
+        const paths = [registeredAliases[key], path].map(path => `  - ${relative(rootDir, path)}`)
+        if (type === 'source' && pkg && aliasPackages[key] === pkg) {
+          Logger.debug(`${prefix}${pc.dim(`${key} is already registered by package "${pkg}" (skipping)`)}`)
+          return
+        }
+        if (type === 'source') {
+          Logger.warn(`Duplicate source alias "${key}" (skipping; set a unique "sourceAlias"):\n${paths.join('\n')}`)
+          return
+        }
+        throw new Error(`Duplicate alias "${key}" (use a "{source}" or "{name}" alias template):\n${paths.join('\n')}`)
+      }
       wxt.config.alias ??= {}
       if (wxt.config.alias[key]) {
         Logger.debug(`${prefix}${pc.redBright(key)} is already defined! (skipping)`)
         return
       }
       wxt.config.alias[key] = path
+      registeredAliases[key] = path
+      if (pkg) {
+        aliasPackages[key] = pkg
+      }
 
       // debug
       Logger.debug(`${prefix}${pc.yellow(key)}`)
     }
 
+    /**
+     * Record why a layer was skipped, by name, id and alias, to explain missing dependencies
+     * @param source        The layer's source
+     * @param layerName     The layer name
+     * @param reason        Readable reason, i.e. `excluded for chrome mv3 production`
+     * @param layerOptions  Merged layer options, if loaded (source and module options otherwise)
+     */
+    function skipLayer (source: SourceOptions, layerName: string, reason: string, layerOptions = mergeLayerOptions(null, source, options)) {
+      const sourceName = getSourceName(rootDir, source)
+      skippedLayers.set(layerName, reason)
+      skippedLayers.set(`${sourceName}/${layerName}`, reason)
+      if (layerOptions.layerAlias) {
+        skippedLayers.set(interpolateLayerName(layerOptions.layerAlias, layerName, sourceName), reason)
+      }
+    }
+
+    /**
+     * Warn about invalid options, or throw in strict mode
+     * @param problems  Readable problems
+     */
+    function reportProblems (problems: string[]) {
+      if (problems.length === 0) {
+        return
+      }
+      if (options.strict) {
+        throw new Error(`Invalid layer options:\n${problems.map(text => `  - ${text}`).join('\n')}`)
+      }
+      problems.forEach(problem => Logger.warn(`Invalid layer option: ${problem}`))
+    }
+
     // variables
     const rootDir = wxt.config.root
     const srcDir = wxt.config.srcDir
+    const registeredAliases: Record<string, string> = {}
+    const aliasPackages: Record<string, string> = {}
 
     // -----------------------------------------------------------------------------------------------------------------
     // scan for layers
     // -----------------------------------------------------------------------------------------------------------------
 
+    // validate sources
+    reportProblems(validateSources(options.sources))
+
     // layer sources
     const layerSources: SourceOptions[] = resolveSources(rootDir, options.sources)
     if (layerSources.length === 0) {
@@ -145,255 +274,539 @@ export const module = defineWxtModule({
     // process all layers
     // -----------------------------------------------------------------------------------------------------------------
 
-    interface LayerEntrypointInfo {
-      order: number,
-      layerName: string,
-      entrypointName: string,
-      info: EntrypointInfo,
-    }
-
     // variables
-    const allLayerPaths: string[] = []
+    const allLayers: ResolvedLayer[] = []
     const allAutoImportPaths: string[] = []
     const allEntrypoints: LayerEntrypointInfo[] = []
+    const layerConfigs = new Map<string, LayerOptions | null>()
+    const activeSources: SourceOptions[] = []
+    const allPublicFolders: Array<{ layerName: string, publicPath: string, publicPrefix: string }> = []
+    const allWebAccessible: LayerWebAccessibleResources[] = []
+    const publicPrefixes: Record<string, string> = {}
+    const allLocales: LayerLocales[] = []
+    const skippedLayers = new Map<string, string>()
+
+    // active profile, for layer selection
+    const profile = resolveProfile(options)
+    if (profile) {
+      Logger.debug(`[profile]: ${profile.name} ${pc.dim(`(${profile.patterns.join(', ')})`)}`)
+    }
+
+    // current build target, for layer conditions
+    const target: BuildTarget = {
+      browser: wxt.config.browser,
+      manifestVersion: wxt.config.manifestVersion,
+      mode: wxt.config.mode,
+    }
 
     // 2D loop: iterate over sources, then layers within each source
     for (const source of layerSources) {
       // log source
-      const sourceRelPath = relative(rootDir, source.source)
+      const sourceRelPath = source.package
+        ? `${source.package} ${pc.dim(`(${relative(rootDir, source.source)})`)}`
+        : relative(rootDir, source.source)
+
+      // skip excluded sources
+      const sourceSkipReason = getExcludeReason(source, target)
+      if (sourceSkipReason) {
+        Logger.debug(`[source]: ${sourceRelPath} ${pc.dim(`(skipped for ${formatTarget(target)}: ${sourceSkipReason})`)}`)
+        getLayerPaths(source).forEach(layerPath => skipLayer(source, basename(layerPath), `excluded for ${formatTarget(target)}`))
+        continue
+      }
+
       Logger.debug((`[source]: ${sourceRelPath}`))
 
-      // source alias
+      // source alias (`{name}` is the source folder, and `{source}` the unique source name)
+      const sourceName = getSourceName(rootDir, source)
       if (source?.sourceAlias && source?.sourceAlias) {
-        setAlias(source.source.replace('/*', ''), source.sourceAlias, 'source')
+        const sourceDir = getSourceDir(source)
+        setAlias(sourceDir, interpolateLayerName(source.sourceAlias, basename(sourceDir), sourceName), 'source', source.package)
       }
 
-      const layerPaths = getLayerPaths(source)
+      // filter layers by active profile
+      activeSources.push(source)
+      const layerPaths = getLayerPaths(source).filter(layerPath => {
+        if (profile && !isInProfile(profile, basename(layerPath))) {
+          Logger.debug(`  [layer]: ${relative(rootDir, layerPath)} ${pc.dim(`(skipped: not in profile "${profile.name}")`)}`)
+          skipLayer(source, basename(layerPath), `not in profile "${profile.name}"`)
+          return false
+        }
+        return true
+      })
 
       for (const layerPath of layerPaths) {
-        // collect layer path for hook
-        allLayerPaths.push(layerPath)
-
         // merge options at the top of the loop: module > source > layer
         const layerConfig = await loadLayerConfig(layerPath)
+        layerConfigs.set(layerPath, layerConfig)
+        reportProblems(validateLayerConfig(layerConfig, layerPath, relative(rootDir, join(layerPath, 'layer.config'))))
         const layerOptions = mergeLayerOptions(layerConfig, source, options)
-
-        // variables
         const layerName = basename(layerPath)
-        const layerRelPath = relative(rootDir, layerPath)
 
-        Logger.debug((`  [layer]: ${layerRelPath}`))
+        // skip excluded layers
+        const layerSkipReason = getExcludeReason(layerOptions, target)
+        if (layerSkipReason) {
+          const layerRelPath = relative(rootDir, layerPath)
+          Logger.debug(`  [layer]: ${layerRelPath} ${pc.dim(`(skipped for ${formatTarget(target)}: ${layerSkipReason})`)}`)
+          skipLayer(source, layerName, `excluded for ${formatTarget(target)}`, layerOptions)
+          continue
+        }
+
+        // collect layer for sorting
+        allLayers.push({
+          name: layerName,
+          id: `${sourceName}/${layerName}`,
+          path: layerPath,
+          source,
+          options: layerOptions,
+        })
+      }
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // restart dev server when layers are added, removed or reconfigured
+    // -----------------------------------------------------------------------------------------------------------------
+
+    if (wxt.config.command === 'serve') {
+      wxt.hook('server:started', (_, server) => {
+        let restarting = false
+        watchLayers(server.watcher, {
+          rootDir,
+          sourceDirs: activeSources.map(getSourceDir),
+          layerConfigs,
+          findLayerPaths: () => activeSources.flatMap(getLayerPaths),
+        }, change => {
+          if (!restarting) {
+            restarting = true
+            Logger.info(`${change}, restarting server...`)
+            server.restart().catch((error: unknown) => {
+              restarting = false
+              Logger.error(`Unable to restart server: ${error instanceof Error ? error.message : error}`)
+            })
+          }
+        })
+      })
+    }
 
-        // ---------------------------------------------------------------------------------------------------------------
-        // layer alias (added immediately)
-        // ---------------------------------------------------------------------------------------------------------------
+    // exit if no layers found
+    if (allLayers.length === 0) {
+      Logger.warn(pc.redBright('No layers found!'))
+      return
+    }
 
-        setAlias(layerPath, layerOptions.layerAlias)
+    // check for layers with the same name
+    const { layers: uniqueLayers, errors: layerErrors, warnings: layerWarnings } = resolveLayerCollisions(
+      rootDir,
+      allLayers,
+      options.layerCollisions ?? 'error'
+    )
+    layerWarnings.forEach(warning => Logger.warn(`Layer name collision: ${warning}`))
+    if (layerErrors.length > 0) {
+      throw new Error(`Multiple layers with the same name (use "layerCollisions: 'disambiguate'" to rename them):\n${layerErrors.map(text => `  - ${text}`).join('\n')}`)
+    }
 
-        // ---------------------------------------------------------------------------------------------------------------
-        // entrypoints (added on hook)
-        // ---------------------------------------------------------------------------------------------------------------
+    // resolve layer aliases, once names are unique
+    const resolvedLayers = uniqueLayers.map(layer => ({
+      ...layer,
+      alias: layer.options.layerAlias
+        ? interpolateLayerName(layer.options.layerAlias, layer.name, getSourceName(rootDir, layer.source))
+        : undefined,
+    }))
+
+    // sort layers by dependencies, then order
+    const sortedLayers = sortLayers(resolvedLayers, skippedLayers)
+    const layerGroups = groupLayers(sortedLayers)
+    const allLayerPaths = sortedLayers.map(layer => layer.path)
+
+    // process layers in load order
+    for (const layer of sortedLayers) {
+      // variables
+      const { name: layerName, path: layerPath, options: layerOptions } = layer
+      const layerRelPath = relative(rootDir, layerPath)
+      const sourceName = getSourceName(rootDir, layer.source)
+
+      Logger.debug((`  [layer]: ${layerRelPath}`))
+      if (layerOptions.dependsOn?.length) {
+        Logger.debug(`    - depends on: ${layerOptions.dependsOn.join(', ')}`)
+      }
 
-        // get entrypoints
-        const layerEntrypoints = layerOptions.entrypoints
-          ? resolveEntrypoints(layerOptions.entrypoints, layerPath)
-          : scanLayerEntrypoints(layerPath)
+      // ---------------------------------------------------------------------------------------------------------------
+      // layer alias (added immediately)
+      // ---------------------------------------------------------------------------------------------------------------
 
-        // process entrypoints
-        for (const entrypoint of layerEntrypoints) {
-          // debug
-          const path = relative(layerPath, entrypoint.inputPath)
-          const suffix = entrypoint.type === 'background'
-            ? pc.dim('(layer-background)')
-            : pc.dim(`(${entrypoint.type})`)
-          Logger.debug(`    - entrypoint: ${path} ${suffix}`)
+      setAlias(layerPath, layer.alias)
 
-          // collect entrypoint
-          allEntrypoints.push({
-            layerName,
-            entrypointName: entrypoint.name,
-            order: layerOptions.order ?? 100,
-            info: entrypoint,
-          })
-        }
+      // ---------------------------------------------------------------------------------------------------------------
+      // entrypoints (added on hook)
+      // ---------------------------------------------------------------------------------------------------------------
 
-        // ---------------------------------------------------------------------------------------------------------------
-        // auto-imports (collated for later addition on hook)
-        // ---------------------------------------------------------------------------------------------------------------
+      // get entrypoints
+      const layerEntrypoints = getLayerEntrypoints(layerPath, layerOptions.entrypoints, layerOptions.entrypointsMode)
+
+      // entrypoint prefix
+      const entrypointPrefix = interpolateLayerName(layerOptions.entrypointPrefix ?? '', layerName, sourceName)
+
+      // process entrypoints
+      for (const { key, ...entrypoint } of layerEntrypoints) {
+        // object-form config
+        const { path: _, include, exclude, ...overrides } = getEntrypointConfig(layerOptions.entrypoints, key) ?? {}
+
+        // skip excluded browsers
+        const path = relative(layerPath, entrypoint.inputPath)
+        const entrypointSkipReason = getExcludeReason({
+          include: include && { browsers: include },
+          exclude: exclude && { browsers: exclude },
+        }, target)
+        if (entrypointSkipReason) {
+          Logger.debug(`    - entrypoint: ${path} ${pc.dim(`(skipped for ${formatTarget(target)}: ${entrypointSkipReason})`)}`)
+          continue
+        }
 
-        // collect auto-import directories
-        const autoImportPaths = resolveLayerAutoImportDirs(layerPath, layerOptions.autoImports ?? [])
-        if (autoImportPaths.length > 0) {
-          Logger.debug(`    - auto-imports: ${autoImportPaths.map(d => `${basename(d)}`).join(', ')}`)
-          allAutoImportPaths.push(...autoImportPaths)
+        // prefix output name
+        const info = entrypointPrefix && PREFIXABLE_TYPES.includes(entrypoint.type)
+          ? { ...entrypoint, name: `${entrypointPrefix}${entrypoint.name}` }
+          : entrypoint
+
+        // layer backgrounds are merged into the main background, so ignore their overrides
+        let overrideKeys = Object.keys(overrides)
+        if (info.type === 'background' && overrideKeys.length > 0) {
+          const label = relative(rootDir, join(layerPath, 'layer.config'))
+          reportProblems([`${label}: "entrypoints.${key}" options ${overrideKeys.map(key => `"${key}"`).join(', ')} are not supported for layer backgrounds (ignored)`])
+          overrideKeys = []
         }
 
-        // ---------------------------------------------------------------------------------------------------------------
-        // public folder (copied on hook)
-        // ---------------------------------------------------------------------------------------------------------------
+        // debug
+        const suffix = info.type === 'background'
+          ? pc.dim('(layer-background)')
+          : pc.dim(`(${info.type}${info.name !== entrypoint.name ? ` as ${info.name}` : ''})`)
+        const overridesSuffix = overrideKeys.length > 0
+          ? ` ${pc.dim(`overrides: ${overrideKeys.join(', ')}`)}`
+          : ''
+        Logger.debug(`    - entrypoint: ${path} ${suffix}${overridesSuffix}`)
+
+        // collect entrypoint
+        allEntrypoints.push({
+          layerName,
+          entrypointName: entrypoint.name,
+          order: layerOptions.order ?? 100,
+          group: layerGroups.get(layer)!,
+          timeout: layerOptions.backgroundTimeout,
+          options: layerOptions,
+          overrides: overrideKeys.length > 0 ? overrides : undefined,
+          info,
+        })
+      }
+
+      // ---------------------------------------------------------------------------------------------------------------
+      // auto-imports (collated for later addition on hook)
+      // ---------------------------------------------------------------------------------------------------------------
+
+      // collect auto-import directories
+      const autoImportPaths = resolveLayerAutoImportDirs(layerPath, layerOptions.autoImports ?? [])
+      if (autoImportPaths.length > 0) {
+        Logger.debug(`    - auto-imports: ${autoImportPaths.map(d => `${basename(d)}`).join(', ')}`)
+        allAutoImportPaths.push(...autoImportPaths)
+      }
+
+      // ---------------------------------------------------------------------------------------------------------------
+      // public folder (copied on hook)
+      // ---------------------------------------------------------------------------------------------------------------
 
-        // use pre-resolved public prefix
-        const publicPrefix = interpolateLayerName(layerOptions.publicPrefix ?? '', layerName)
+      // use pre-resolved public prefix
+      const publicPrefix = interpolateLayerName(layerOptions.publicPrefix ?? '', layerName, sourceName)
 
-        // path to public folder
-        const publicPath = join(layerPath, 'public')
+      // record public prefix, for runtime asset urls
+      publicPrefixes[layerName] = normalizePublicPrefix(publicPrefix)
 
-        // handle public files
-        if (existsSync(publicPath)) {
-          // debug
-          Logger.debug(`    - public: ${publicPrefix}/*`)
+      // path to public folder
+      const publicPath = join(layerPath, 'public')
 
-          // copy public files at build time
-          wxt.hook('build:publicAssets', (_, assets) => {
-            // find all files in public directory
-            const publicFiles = globSync('**/*', {
-              cwd: publicPath,
-              nodir: true,
-            })
+      // handle public files
+      if (existsSync(publicPath)) {
+        // debug
+        Logger.debug(`    - public: ${publicPrefix}/*`)
+
+        // collect public folder, to copy at build time
+        allPublicFolders.push({ layerName, publicPath, publicPrefix })
 
-            for (const file of publicFiles) {
-              const absoluteSrc = join(publicPath, file)
-              const relativeDest = join(publicPrefix, file)
-              assets.push({ absoluteSrc, relativeDest })
-            }
-          })
+        // collect web accessible resources, to add to manifest
+        const webAccessible = resolveWebAccessible(layerOptions.webAccessible, publicPrefix)
+        if (webAccessible) {
+          Logger.debug(`    - web accessible: ${webAccessible.resources.join(', ')}`)
+          allWebAccessible.push({ layerName, ...webAccessible })
         }
+      }
 
-        // ---------------------------------------------------------------------------------------------------------------
-        // update manifest properties (on hook)
-        // ---------------------------------------------------------------------------------------------------------------
+      // ---------------------------------------------------------------------------------------------------------------
+      // locales (merged on hook)
+      // ---------------------------------------------------------------------------------------------------------------
 
-        if (layerOptions.manifest) {
-          wxt.hook('build:manifestGenerated', (wxt, manifest) => {
-            if (layerOptions.manifest) {
-              layerOptions.manifest(wxt, manifest)
-            }
-          })
-        }
+      const localesPath = findLocalesFolder(layerPath)
+      if (localesPath) {
+        const prefix = normalizeLocalePrefix(interpolateLayerName(layerOptions.localePrefix ?? '', layerName, sourceName))
+        Logger.debug(`    - locales: ${prefix ? `${prefix}*` : 'no prefix'}`)
+        allLocales.push({ layerName, localesPath, prefix })
+      }
+
+      // ---------------------------------------------------------------------------------------------------------------
+      // update manifest properties (on hook)
+      // ---------------------------------------------------------------------------------------------------------------
+
+      // patches and callbacks are applied in a single hook, so just log them
+      if (layerOptions.manifestPatch) {
+        Logger.debug(`    - manifest patch: ${Object.keys(layerOptions.manifestPatch).join(', ')}`)
+      }
+      if (layerOptions.manifest) {
+        Logger.debug('    - manifest: callback')
       }
     }
 
-    // exit if no layers found
-    if (allLayerPaths.length === 0) {
-      Logger.warn(pc.redBright('No layers found!'))
-      return
+    // -----------------------------------------------------------------------------------------------------------------
+    // copy public files (on hook)
+    // -----------------------------------------------------------------------------------------------------------------
+
+    wxt.hook('build:publicAssets', (_, files) => {
+      // find all files in layer public directories, in load order
+      const layerAssets: LayerPublicAsset[] = allPublicFolders.flatMap(({ layerName, publicPath, publicPrefix }) => {
+        return globSync('**/*', { cwd: publicPath, nodir: true })
+          .sort()
+          .map(file => ({
+            layerName,
+            absoluteSrc: join(publicPath, file),
+            relativeDest: join(publicPrefix, file),
+          }))
+      })
+
+      // check for files with the same output path
+      const policy = options.publicCollisions ?? 'warn'
+      const { assets, errors, warnings } = resolvePublicAssetCollisions(rootDir, files, layerAssets, policy)
+      warnings.forEach(warning => policy === 'warn'
+        ? Logger.warn(`Public file collision: ${warning}`)
+        : Logger.debug(`Public file override: ${warning}`))
+      if (errors.length > 0) {
+        throw new Error(`Multiple public files with the same output path:\n${errors.map(text => `  - ${text}`).join('\n')}`)
+      }
+
+      // add files
+      for (const { absoluteSrc, relativeDest } of assets) {
+        files.push({ absoluteSrc, relativeDest })
+      }
+    })
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // merge locales (on hook)
+    // -----------------------------------------------------------------------------------------------------------------
+
+    if (allLocales.length > 0) {
+      wxt.hook('build:publicAssets', (_, files) => {
+        // merge layer messages with project messages
+        const { messages, errors, warnings } = mergeLayerLocales(rootDir, files, allLocales)
+        warnings.forEach(warning => Logger.warn(`Missing locale: ${warning}`))
+        if (errors.length > 0) {
+          throw new Error(`Duplicate locale message keys:\n${errors.map(text => `  - ${text}`).join('\n')}`)
+        }
+
+        // replace project messages files with merged files
+        for (let index = files.length - 1; index >= 0; index--) {
+          if (isMessagesFile(files[index])) {
+            files.splice(index, 1)
+          }
+        }
+        for (const [lang, langMessages] of Object.entries(messages)) {
+          files.push({ relativeDest: `_locales/${lang}/messages.json`, contents: JSON.stringify(langMessages, null, 2) })
+        }
+      })
     }
 
+    // -----------------------------------------------------------------------------------------------------------------
+    // update manifest properties (on hook)
+    // -----------------------------------------------------------------------------------------------------------------
+
+    const manifestLayers = sortedLayers.filter(layer => layer.options.manifestPatch || layer.options.manifest)
+
+    wxt.hook('build:manifestGenerated', async (wxt, manifest) => {
+      // track which layers add which permissions
+      const report = createPermissionReport(manifest)
+      const projectPermissions = snapshotPermissions(manifest)
+
+      // merge manifest patches in load order (before layer manifest callbacks)
+      const manifestPatches: LayerManifestPatch[] = manifestLayers
+        .filter(layer => layer.options.manifestPatch)
+        .map(layer => ({ layerName: layer.name, patch: layer.options.manifestPatch! }))
+
+      const conflicts = mergeManifestPatches(manifest, manifestPatches)
+      if (conflicts.length > 0) {
+        throw new Error(`Conflicting layer manifest patches:\n${conflicts.map(text => `  - ${text}`).join('\n')}`)
+      }
+
+      for (const { layerName, patch } of manifestPatches) {
+        recordPermissions(report, layerName, diffPermissions(projectPermissions, snapshotPermissions(patch)))
+      }
+
+      // layer messages need a default locale
+      if (allLocales.length > 0 && !manifest.default_locale) {
+        Logger.warn('Layer locales found, but the manifest has no "default_locale"')
+      }
+
+      // add web accessible resources (before layer manifest callbacks)
+      addWebAccessibleResources(manifest, allWebAccessible, wxt.config.manifestVersion)
+
+      // run manifest callbacks in load order
+      for (const layer of manifestLayers) {
+        if (layer.options.manifest) {
+          const before = snapshotPermissions(manifest)
+          await layer.options.manifest(wxt, manifest)
+          recordPermissions(report, layer.name, diffPermissions(before, snapshotPermissions(manifest)))
+        }
+      }
+
+      // log permissions
+      const rows = formatPermissionReport(report)
+      if (rows.length > 0) {
+        Logger.debug('[permissions]:')
+        rows.forEach(row => Logger.debug(`  - ${row}`))
+      }
+
+      // write permissions report next to the build output, per target
+      const reportTarget = basename(wxt.config.outDir)
+      const reportPath = join(wxt.config.outBaseDir, getPermissionsReportName(reportTarget))
+      mkdirSync(wxt.config.outBaseDir, { recursive: true })
+      writeFileSync(reportPath, JSON.stringify({ target: reportTarget, ...report }, null, 2))
+
+      // check permissions against allowlist
+      if (options.allowedPermissions) {
+        const disallowed = getDisallowedPermissions(report, options.allowedPermissions)
+        if (disallowed.length > 0) {
+          throw new Error(`Layers added permissions which are not allowed:\n${disallowed.map(text => `  - ${text}`).join('\n')}`)
+        }
+      }
+    })
+
+    // active profile and selected layers
+    const resolvedProfile: LayersProfile | undefined = profile
+      ? { name: profile.name, layers: sortedLayers.map(layer => layer.name) }
+      : undefined
+
     wxt.hook('ready', () => {
-      wxt.hooks.callHook('layers:resolved', allLayerPaths)
+      wxt.hooks.callHook('layers:resolved', allLayerPaths, resolvedProfile)
     })
 
     // -----------------------------------------------------------------------------------------------------------------
-    // virtual module for layer backgrounds
+    // virtual module for layer runtime metadata
     // -----------------------------------------------------------------------------------------------------------------
 
-    const MODULE_NAME = 'wxt-module-layers:background'
-    const MODULE_ID = '\0' + MODULE_NAME
+    // output paths of layer entrypoints (populated once entrypoints are found)
+    const entrypointPaths: LayerEntrypointPaths = {}
 
-    /**
-     * Create a Vite plugin that provides a virtual module to load layer backgrounds
-     *
-     * @param entrypoints   Unordered entrypoint infos for the layer backgrounds
-     * @param debug         An optional debug flag to enable timing logs
-     */
-    function createLayerBackgroundsPlugin (entrypoints: LayerEntrypointInfo[], debug = process.env.NODE_ENV === 'development') {
-      return {
-        name: 'wxt-module-layers-backgrounds',
+    // layer entrypoints after collisions are resolved (populated once entrypoints are found)
+    const resolvedEntrypoints: LayerEntrypointInfo[] = []
 
-        resolveId (id: string) {
-          if (id === MODULE_NAME) {
-            return MODULE_ID
-          }
-        },
-
-        load (id: string) {
-          if (id === MODULE_ID) {
-            // variables
-            let imports = ''
-            const handlers = []
-
-            // prepare imports and handler calls
-            for (const entrypoint of entrypoints) {
-              const label = entrypoint.layerName.replace(/\W+/g, '_')
-              const handler = `init_${label}`
-              imports += `import ${handler} from '${entrypoint.info.inputPath}';\n`
-              handlers.push(handler)
-            }
-
-            // final code
-            return `
-              ${imports}
-              
-              // variables
-              const PROFILE = ${debug};
-              const microtime = () => performance.now();
-              const start = microtime();
-              const style = 'color: var(--ref-palette-primary60); padding: 2px 0px; border-radius: 4px;';
-              
-              // helpers
-              function trace(text, time = start) {
-                const ms = Math.floor((microtime() - time) * 1000) / 1000;
-                console.log('%c' + text + ': ' + ms.toFixed(3) + 'ms', style);
-              }
-              
-              async function runAll () {
-                const handlers = [${handlers.join(', ')}];
-                let prevResult;
-                PROFILE && console.group('[wxt-layers]');
-                for (const handler of handlers) {
-                  const interval = microtime();
-                  const name = handler.name.substring(5);
-                  PROFILE && console.group(name + '.background:');
-                  const result = handler(prevResult);
-                  if (result instanceof Promise) {
-                    prevResult = await result;
-                  }
-                  else {
-                    prevResult = result;
-                  }
-                  PROFILE && trace('Took', interval);
-                  PROFILE && console.groupEnd();
-                }
-                trace('Total');
-                PROFILE && console.groupEnd();
-              }
-              
-              export default {
-                main () {
-                  void runAll();
-                  return true;
-                }
-              }
-            `
-          }
-        },
+    // entrypoint option overrides, by output name (populated once entrypoints are found)
+    const entrypointOverrides = new Map<string, LayerEntrypointOverrides>()
 
-        async handleHotUpdate ({ server, module }: { server: any; module: any }) {
-          if (module.id === MODULE_ID) {
-            const module = server.moduleGraph.getModuleById(MODULE_ID)
-            server.moduleGraph.invalidateModule(module)
-            server.ws.send({ type: 'full-reload' })
-          }
-        },
-      }
+    // layer metadata, in load order
+    const runtimeData: LayerRuntimeData = {
+      layers: sortedLayers.map(layer => layer.name),
+      layerOrder: Object.fromEntries(sortedLayers.map(layer => [layer.name, layer.options.order ?? 50])),
+      entrypoints: entrypointPaths,
+      publicPrefixes,
     }
 
+    wxt.hook('vite:devServer:extendConfig', (config: any) => {
+      config.plugins = config.plugins || []
+      config.plugins.push(createLayerRuntimePlugin(runtimeData))
+    })
+
+    wxt.hook('vite:build:extendConfig', (_entrypoints: any, config: any) => {
+      config.plugins = config.plugins || []
+      config.plugins.push(createLayerRuntimePlugin(runtimeData))
+    })
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // layer import boundaries (opt-in)
+    // -----------------------------------------------------------------------------------------------------------------
+
+    if (options.boundaries) {
+      const policy = options.boundaries
+      const boundaries: LayerBoundary[] = sortedLayers.map(layer => ({
+        name: layer.name,
+        path: layer.path,
+        alias: layer.alias,
+        exports: layer.options.exports ?? [],
+        autoImports: resolveLayerAutoImportDirs(layer.path, layer.options.autoImports ?? []),
+        private: layer.options.private ?? [],
+      }))
+
+      wxt.hook('vite:devServer:extendConfig', (config: any) => {
+        config.plugins = config.plugins || []
+        config.plugins.push(createLayerBoundariesPlugin(rootDir, boundaries, policy))
+      })
+
+      wxt.hook('vite:build:extendConfig', (_entrypoints: any, config: any) => {
+        config.plugins = config.plugins || []
+        config.plugins.push(createLayerBoundariesPlugin(rootDir, boundaries, policy))
+      })
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+    // type declarations for virtual modules, and layers report
+    // -----------------------------------------------------------------------------------------------------------------
+
+    wxt.hook('prepare:types', (_, entries) => {
+      entries.push({
+        path: DECLARATIONS_PATH,
+        text: generateDeclarations({
+          runtime: runtimeData,
+        }),
+        tsReference: true,
+      })
+      entries.push({
+        path: LAYERS_REPORT,
+        text: generateLayersReport({
+          rootDir,
+          target: basename(wxt.config.outDir),
+          options,
+          sources: activeSources,
+          layers: sortedLayers,
+          layerConfigs,
+          aliases: registeredAliases,
+          entrypoints: resolvedEntrypoints,
+          publicFolders: allPublicFolders,
+        }),
+      })
+    })
+
     // -----------------------------------------------------------------------------------------------------------------
     // modify config once resolved (entrypoints, auto-imports)
     // -----------------------------------------------------------------------------------------------------------------
 
     wxt.hook('entrypoints:found', (_, entrypointInfos) => {
       // layer backgrounds
-      const layerBackgrounds: LayerEntrypointInfo[] = []
+      const layerBackgrounds = allEntrypoints.filter(entrypoint => entrypoint.info.type === 'background')
+
+      // check for entrypoint collisions (but not layer backgrounds!)
+      const { entrypoints, errors, warnings } = resolveEntrypointCollisions(
+        rootDir,
+        entrypointInfos,
+        allEntrypoints.filter(entrypoint => entrypoint.info.type !== 'background'),
+        options.entrypointCollisions ?? 'error'
+      )
+      warnings.forEach(warning => Logger.warn(`Entrypoint collision: ${warning}`))
+      if (errors.length > 0) {
+        throw new Error(`Multiple entrypoints with the same name:\n${errors.map(text => `  - ${text}`).join('\n')}`)
+      }
 
-      // add entrypoints (but not layer backgrounds!)
-      for (const entrypoint of allEntrypoints) {
-        const { info } = entrypoint
-        if (info.type === 'background') {
-          layerBackgrounds.push(entrypoint)
-        }
-        else {
-          entrypointInfos.push(info)
+      // record layer entrypoints, for the layers report
+      resolvedEntrypoints.splice(0, resolvedEntrypoints.length, ...layerBackgrounds, ...entrypoints)
+
+      // add entrypoints, and record output paths for runtime module and option overrides
+      entrypointOverrides.clear()
+      Object.keys(entrypointPaths).forEach(layerName => delete entrypointPaths[layerName])
+      for (const entrypoint of entrypoints) {
+        entrypointInfos.push(entrypoint.info)
+        entrypointPaths[entrypoint.layerName] ??= {}
+        entrypointPaths[entrypoint.layerName][entrypoint.entrypointName] = getEntrypointOutputPath(entrypoint.info)
+        if (entrypoint.overrides) {
+          entrypointOverrides.set(entrypoint.info.name, entrypoint.overrides)
         }
       }
 
@@ -419,22 +832,43 @@ export const module = defineWxtModule({
           type: 'background',
         })
 
-        // get paths
-        const entrypoints = layerBackgrounds.sort((a, b) => a.order - b.order)
+        // layer backgrounds are already in load order
+        const entrypoints = layerBackgrounds
+
+        // runner options
+        const backgroundOptions: LayerBackgroundsOptions = {
+          profile: options.backgroundProfile ?? wxt.config.mode === 'development',
+          errors: options.backgroundErrors ?? 'continue',
+          context: options.backgroundContext ?? true,
+          mode: options.backgroundMode ?? 'sequential',
+        }
 
         // Register the virtual module plugin
         wxt.hook('vite:devServer:extendConfig', (config: any) => {
           config.plugins = config.plugins || []
-          config.plugins.push(createLayerBackgroundsPlugin(entrypoints))
+          config.plugins.push(createLayerBackgroundsPlugin(entrypoints, backgroundOptions))
         })
 
         wxt.hook('vite:build:extendConfig', (_entrypoints: any, config: any) => {
           config.plugins = config.plugins || []
-          config.plugins.push(createLayerBackgroundsPlugin(entrypoints))
+          config.plugins.push(createLayerBackgroundsPlugin(entrypoints, backgroundOptions))
         })
       }
     })
 
+    wxt.hook('entrypoints:resolved', (_, entrypoints) => {
+      // -----------------------------------------------------------------------------------------------------------------
+      // apply entrypoint option overrides from layer configs
+      // -----------------------------------------------------------------------------------------------------------------
+
+      for (const entrypoint of entrypoints) {
+        const overrides = entrypointOverrides.get(entrypoint.name)
+        if (overrides) {
+          applyEntrypointOverrides(entrypoint, overrides, wxt.config.browser)
+        }
+      }
+    })
+
     wxt.hook('config:resolved', async () => {
       // ---------------------------------------------------------------------------------------------------------------
       // add layer auto-imports
@@ -0,0 +1,116 @@
+import type { ResolvedLayer } from './types'
+
+/**
+ * Find the layer referenced by a dependency string (layer name, `{source}/{name}` id, or alias)
+ */
+function findLayer (layers: ResolvedLayer[], ref: string): ResolvedLayer | undefined {
+  return layers.find(layer => layer.name === ref) ??
+    layers.find(layer => layer.id === ref) ??
+    layers.find(layer => layer.alias === ref)
+}
+
+/**
+ * Format a layer for error messages
+ */
+function formatLayer (layer: ResolvedLayer): string {
+  return `"${layer.name}" (${layer.path})`
+}
+
+/**
+ * Sort layers so each layer loads after its dependencies
+ *
+ * Layers without a dependency between them are sorted by `order`, then by discovery order.
+ *
+ * @param layers    Discovered layers
+ * @param skipped   Reasons layers were skipped, by layer name and id, i.e. `{ analytics: 'excluded for chrome mv3 production' }`
+ * @throws Error if a dependency is missing or dependencies are circular
+ */
+export function sortLayers (layers: ResolvedLayer[], skipped: Map<string, string> = new Map()): ResolvedLayer[] {
+  // resolve dependencies
+  const dependencies = new Map<ResolvedLayer, ResolvedLayer[]>()
+  const missing: string[] = []
+  for (const layer of layers) {
+    const deps: ResolvedLayer[] = []
+    for (const ref of layer.options.dependsOn ?? []) {
+      const dep = findLayer(layers, ref)
+      if (dep) {
+        if (!deps.includes(dep)) {
+          deps.push(dep)
+        }
+      }
+      else {
+        missing.push(`  - layer ${formatLayer(layer)} depends on "${ref}", which ${skipped.has(ref) ? `is ${skipped.get(ref)}` : 'was not found'}`)
+      }
+    }
+    dependencies.set(layer, deps)
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Missing layer dependencies:\n${missing.join('\n')}`)
+  }
+
+  // sort candidates by order, then discovery index
+  const index = new Map(layers.map((layer, i) => [layer, i]))
+  const compare = (a: ResolvedLayer, b: ResolvedLayer) => {
+    return (a.options.order ?? 50) - (b.options.order ?? 50) || index.get(a)! - index.get(b)!
+  }
+
+  // depth-first visit, visiting dependencies and candidates in sorted order
+  const sorted: ResolvedLayer[] = []
+  const visited = new Set<ResolvedLayer>()
+  const visiting: ResolvedLayer[] = []
+
+  function visit (layer: ResolvedLayer) {
+    if (visited.has(layer)) {
+      return
+    }
+
+    const start = visiting.indexOf(layer)
+    if (start > -1) {
+      const cycle = [...visiting.slice(start), layer].map(layer => `"${layer.name}"`)
+      throw new Error(`Circular layer dependency: ${cycle.join(' -> ')}`)
+    }
+
+    visiting.push(layer)
+    for (const dep of [...dependencies.get(layer)!].sort(compare)) {
+      visit(dep)
+    }
+    visiting.pop()
+
+    visited.add(layer)
+    sorted.push(layer)
+  }
+
+  for (const layer of [...layers].sort(compare)) {
+    visit(layer)
+  }
+
+  return sorted
+}
+
+/**
+ * Group sorted layers which can be initialized concurrently
+ *
+ * Consecutive layers with the same `order` share a group, unless a layer depends on
+ * another layer in the group, in which case it starts a new group.
+ *
+ * @returns  A map of layers to their group index
+ */
+export function groupLayers (sorted: ResolvedLayer[]): Map<ResolvedLayer, number> {
+  const groups = new Map<ResolvedLayer, number>()
+  let group: ResolvedLayer[] = []
+  let index = -1
+  for (const layer of sorted) {
+    const deps = (layer.options.dependsOn ?? []).map(ref => findLayer(sorted, ref))
+    const canJoin = group.length > 0 &&
+      (group[0].options.order ?? 50) === (layer.options.order ?? 50) &&
+      !deps.some(dep => dep && group.includes(dep))
+    if (!canJoin) {
+      group = []
+      index++
+    }
+    group.push(layer)
+    groups.set(layer, index)
+  }
+  return groups
+}
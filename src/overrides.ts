@@ -0,0 +1,27 @@
+import type { Entrypoint } from 'wxt'
+import type { LayerEntrypointOverrides } from './types'
+
+/**
+ * Resolve a per-browser option, i.e. `{ chrome: 'a', firefox: 'b' }`, for the target browser
+ */
+function resolvePerBrowserOption (key: string, value: unknown, browser: string): unknown {
+  // defaultIcon is the only option whose value is a record
+  if (key !== 'defaultIcon' && value && typeof value === 'object' && !Array.isArray(value)) {
+    return (value as Record<string, unknown>)[browser]
+  }
+  return value
+}
+
+/**
+ * Apply layer config overrides to an entrypoint's resolved options
+ *
+ * @param entrypoint    The entrypoint resolved by WXT
+ * @param overrides     Options from the layer's entrypoints config
+ * @param browser       The target browser, to resolve per-browser options
+ */
+export function applyEntrypointOverrides (entrypoint: Entrypoint, overrides: LayerEntrypointOverrides, browser: string): void {
+  const options = entrypoint.options as Record<string, unknown>
+  for (const [key, value] of Object.entries(overrides)) {
+    options[key] = resolvePerBrowserOption(key, value, browser)
+  }
+}
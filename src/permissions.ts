@@ -0,0 +1,118 @@
+import type { Browser } from 'wxt/browser'
+
+/**
+ * Get the filename of the permissions report for a build target, written next to the build output
+ *
+ * @param target    The build target, i.e. `chrome-mv3` => `layers-permissions.chrome-mv3.json`
+ */
+export function getPermissionsReportName (target: string): string {
+  return `layers-permissions.${target}.json`
+}
+
+/**
+ * Manifest keys which hold permissions
+ */
+export const PERMISSION_KEYS = [
+  'permissions',
+  'host_permissions',
+  'optional_permissions',
+  'optional_host_permissions',
+] as const
+
+export type PermissionKey = typeof PERMISSION_KEYS[number]
+
+/**
+ * Owner name for permissions which were in the manifest before any layers ran
+ */
+export const PROJECT_OWNER = '(project)'
+
+/**
+ * Mapping of manifest permissions to the layers (or project) which added them
+ */
+export type PermissionReport = Record<PermissionKey, Record<string, string[]>>
+
+/**
+ * Snapshot of manifest permissions, by key
+ */
+export type PermissionSnapshot = Record<PermissionKey, string[]>
+
+/**
+ * Get the current permissions from a manifest
+ */
+export function snapshotPermissions (manifest: Browser.runtime.Manifest | Record<string, any>): PermissionSnapshot {
+  const snapshot = {} as PermissionSnapshot
+  for (const key of PERMISSION_KEYS) {
+    const values: unknown = (manifest as Record<string, any>)[key]
+    snapshot[key] = Array.isArray(values)
+      ? values.filter(value => typeof value === 'string')
+      : []
+  }
+  return snapshot
+}
+
+/**
+ * Create a permission report, attributing existing manifest permissions to the project
+ */
+export function createPermissionReport (manifest: Browser.runtime.Manifest): PermissionReport {
+  const report = Object.fromEntries(PERMISSION_KEYS.map(key => [key, {}])) as PermissionReport
+  recordPermissions(report, PROJECT_OWNER, snapshotPermissions(manifest))
+  return report
+}
+
+/**
+ * Record permissions against an owner
+ */
+export function recordPermissions (report: PermissionReport, owner: string, permissions: PermissionSnapshot) {
+  for (const key of PERMISSION_KEYS) {
+    for (const permission of permissions[key]) {
+      const owners = report[key][permission] ??= []
+      if (!owners.includes(owner)) {
+        owners.push(owner)
+      }
+    }
+  }
+}
+
+/**
+ * Get permissions which were added since a previous snapshot
+ */
+export function diffPermissions (before: PermissionSnapshot, after: PermissionSnapshot): PermissionSnapshot {
+  const diff = {} as PermissionSnapshot
+  for (const key of PERMISSION_KEYS) {
+    diff[key] = after[key].filter(permission => !before[key].includes(permission))
+  }
+  return diff
+}
+
+/**
+ * Get permissions added by layers which are not in an allowlist, as readable strings
+ */
+export function getDisallowedPermissions (report: PermissionReport, allowlist: string[]): string[] {
+  const disallowed: string[] = []
+  for (const key of PERMISSION_KEYS) {
+    for (const [permission, owners] of Object.entries(report[key])) {
+      const layers = owners.filter(owner => owner !== PROJECT_OWNER)
+      if (layers.length > 0 && !allowlist.includes(permission)) {
+        disallowed.push(`${key} "${permission}" added by ${layers.map(layer => `"${layer}"`).join(', ')}`)
+      }
+    }
+  }
+  return disallowed
+}
+
+/**
+ * Format a permission report as table rows for logging
+ */
+export function formatPermissionReport (report: PermissionReport): string[] {
+  const rows: string[][] = []
+  for (const key of PERMISSION_KEYS) {
+    for (const [permission, owners] of Object.entries(report[key])) {
+      rows.push([key, permission, owners.join(', ')])
+    }
+  }
+
+  const widths = [0, 1].map(index => Math.max(...rows.map(row => row[index].length)))
+  return rows.map(([key, permission, owners]) => {
+    return `${key.padEnd(widths[0])}  ${permission.padEnd(widths[1])}  ${owners}`
+  })
+}
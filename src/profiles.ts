@@ -0,0 +1,69 @@
+import type { LayersModuleOptions } from './types'
+
+/**
+ * Environment variable to select the active profile
+ */
+export const PROFILE_ENV = 'WXT_LAYERS_PROFILE'
+
+/**
+ * The active build profile
+ */
+export interface ActiveProfile {
+  /**
+   * The profile name
+   */
+  name: string
+
+  /**
+   * The profile's layer patterns
+   */
+  patterns: string[]
+}
+
+/**
+ * Resolve the active profile from the environment or module options
+ *
+ * @throws Error if the named profile is not defined
+ */
+export function resolveProfile (options: LayersModuleOptions): ActiveProfile | undefined {
+  const name = process.env[PROFILE_ENV] || options.profile
+  if (!name) {
+    return
+  }
+
+  const patterns = options.profiles?.[name]
+  if (!patterns) {
+    const available = Object.keys(options.profiles ?? {})
+    throw new Error(`Unknown layers profile "${name}" (available: ${available.length ? available.join(', ') : 'none'})`)
+  }
+
+  return { name, patterns }
+}
+
+/**
+ * Convert a profile pattern to a regular expression, where `*` matches any characters
+ */
+function toRegExp (pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Determine whether a layer is selected by a profile
+ *
+ * Patterns are applied in order; `!` patterns remove previously-matched layers
+ */
+export function isInProfile (profile: ActiveProfile, layerName: string): boolean {
+  let selected = false
+  for (const pattern of profile.patterns) {
+    const negated = pattern.startsWith('!')
+    const rx = toRegExp(negated ? pattern.slice(1) : pattern)
+    if (rx.test(layerName)) {
+      selected = !negated
+    }
+  }
+  return selected
+}
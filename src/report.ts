@@ -0,0 +1,176 @@
+import { join, relative } from 'node:path'
+import { globSync } from 'glob'
+import { getSourceName, resolveLayerAutoImportDirs } from './filesystem'
+import { getEntrypointOutputPath } from './runtime'
+import type { LayerEntrypointInfo, LayerOptions, LayersModuleOptions, ResolvedLayer, SourceOptions } from './types'
+
+/**
+ * Filename of the layers report, written to the `.wxt/` directory
+ */
+export const LAYERS_REPORT = 'layers.json'
+
+/**
+ * Options which are only read from layer config (not merged from source or module options)
+ */
+const LAYER_ONLY_KEYS = [
+  'order',
+  'dependsOn',
+  'backgroundTimeout',
+  'include',
+  'exclude',
+  'exports',
+  'private',
+  'manifest',
+  'manifestPatch',
+]
+
+/**
+ * The level a merged option value came from
+ */
+export type OptionOrigin = 'layer' | 'source' | 'module' | 'default'
+
+/**
+ * Data to generate the layers report from
+ */
+export interface LayersReportData {
+  /**
+   * The project root, for relative paths
+   */
+  rootDir: string
+
+  /**
+   * The build target, i.e. `chrome-mv3`
+   */
+  target: string
+
+  /**
+   * Module options
+   */
+  options: LayersModuleOptions
+
+  /**
+   * Sources which were not excluded by conditions
+   */
+  sources: SourceOptions[]
+
+  /**
+   * Resolved layers, in load order
+   */
+  layers: ResolvedLayer[]
+
+  /**
+   * Loaded layer configs, by absolute layer path
+   */
+  layerConfigs: Map<string, LayerOptions | null>
+
+  /**
+   * Registered aliases, mapped to absolute paths
+   */
+  aliases: Record<string, string>
+
+  /**
+   * Layer entrypoints added to the build, after collisions are resolved
+   */
+  entrypoints: LayerEntrypointInfo[]
+
+  /**
+   * Layer public folders, and their interpolated prefixes
+   */
+  publicFolders: Array<{ layerName: string, publicPath: string, publicPrefix: string }>
+}
+
+/**
+ * Get the levels a merged option was set at
+ */
+function getOptionOrigins (key: string, layerConfig: LayerOptions | null, sourceConfig: SourceOptions, moduleOptions: LayersModuleOptions): OptionOrigin[] {
+  const levels: Array<[OptionOrigin, object | null]> = LAYER_ONLY_KEYS.includes(key)
+    ? [['layer', layerConfig]]
+    : [['layer', layerConfig], ['source', sourceConfig], ['module', moduleOptions]]
+  return levels
+    .filter(([, config]) => (config as Record<string, unknown> | null)?.[key] !== undefined)
+    .map(([origin]) => origin)
+}
+
+/**
+ * Get a layer's merged options, with the level each value came from
+ *
+ * - merged entrypoints list every level they came from, i.e. `module + layer`
+ * - other options show the highest-priority level, or `default` if not set
+ */
+function getLayerOptions (layer: ResolvedLayer, layerConfig: LayerOptions | null, moduleOptions: LayersModuleOptions) {
+  return Object.fromEntries(Object.entries(layer.options)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const origins = getOptionOrigins(key, layerConfig, layer.source, moduleOptions)
+      const from = key === 'entrypoints' && layer.options.entrypointsMode === 'merge'
+        ? [...origins].reverse().join(' + ')
+        : origins[0]
+      return [key, { value, from: from || 'default' }]
+    }))
+}
+
+/**
+ * Generate a machine-readable report of resolved sources and layers, to diff between builds
+ *
+ * @param data    Resolved layer data
+ */
+export function generateLayersReport (data: LayersReportData): string {
+  const { rootDir, options, layerConfigs } = data
+
+  // portable relative paths
+  const toRelative = (path: string) => relative(rootDir, path).replace(/\\/g, '/')
+
+  const report = {
+    target: data.target,
+
+    sources: data.sources.map(source => ({
+      name: getSourceName(rootDir, source),
+      source: toRelative(source.source),
+      package: source.package,
+    })),
+
+    layers: data.layers.map(layer => {
+      const publicFolder = data.publicFolders.find(folder => folder.layerName === layer.name)
+      return {
+        name: layer.name,
+        id: layer.id,
+        path: toRelative(layer.path),
+        source: getSourceName(rootDir, layer.source),
+        alias: layer.alias,
+        options: getLayerOptions(layer, layerConfigs.get(layer.path) ?? null, options),
+        autoImports: resolveLayerAutoImportDirs(layer.path, layer.options.autoImports ?? []).map(toRelative),
+        entrypoints: data.entrypoints
+          .filter(entrypoint => entrypoint.layerName === layer.name && entrypoint.info.type !== 'background')
+          .map(({ entrypointName, info }) => ({
+            name: entrypointName,
+            outputName: info.name,
+            type: info.type,
+            input: toRelative(info.inputPath),
+            output: getEntrypointOutputPath(info),
+          })),
+        public: publicFolder
+          ? globSync('**/*', { cwd: publicFolder.publicPath, nodir: true })
+            .sort()
+            .map(file => ({
+              src: toRelative(join(publicFolder.publicPath, file)),
+              dest: join(publicFolder.publicPrefix, file).replace(/\\/g, '/'),
+            }))
+          : [],
+      }
+    }),
+
+    aliases: Object.fromEntries(Object.entries(data.aliases).map(([alias, path]) => [alias, toRelative(path)])),
+
+    backgrounds: data.entrypoints
+      .filter(entrypoint => entrypoint.info.type === 'background')
+      .map(entrypoint => ({
+        layer: entrypoint.layerName,
+        input: toRelative(entrypoint.info.inputPath),
+        order: entrypoint.order,
+        group: entrypoint.group,
+      })),
+  }
+
+  // functions (i.e. `manifest` callbacks) can't be serialized, so are just flagged
+  return JSON.stringify(report, (_, value) => typeof value === 'function' ? '(function)' : value, 2)
+}
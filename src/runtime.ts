@@ -0,0 +1,131 @@
+import type { EntrypointInfo } from 'wxt'
+
+export const RUNTIME_MODULE_NAME = 'wxt-module-layers:runtime'
+export const RUNTIME_MODULE_ID = '\0' + RUNTIME_MODULE_NAME
+
+/**
+ * Entrypoint types which can be prefixed with `entrypointPrefix`
+ */
+export const PREFIXABLE_TYPES: EntrypointInfo['type'][] = [
+  'content-script',
+  'content-script-style',
+  'sandbox',
+  'sidepanel',
+  'unlisted-page',
+  'unlisted-script',
+  'unlisted-style',
+]
+
+/**
+ * Mapping of layer names to entrypoint names to output paths
+ */
+export type LayerEntrypointPaths = Record<string, Record<string, string>>
+
+/**
+ * Build-time layer metadata, exported by the layers runtime virtual module
+ */
+export interface LayerRuntimeData {
+  /**
+   * Layer names, in load order
+   */
+  layers: string[]
+
+  /**
+   * Layer `order` options, by layer name
+   */
+  layerOrder: Record<string, number>
+
+  /**
+   * Output paths of layer entrypoints
+   */
+  entrypoints: LayerEntrypointPaths
+
+  /**
+   * Interpolated public prefixes, by layer name, i.e. `{ auth: 'auth' }`
+   */
+  publicPrefixes: Record<string, string>
+}
+
+/**
+ * Normalize a public prefix to a folder path, i.e. `/layers/auth/` => `layers/auth`
+ */
+export function normalizePublicPrefix (prefix: string): string {
+  return prefix.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '')
+}
+
+/**
+ * Get the output path of an entrypoint, relative to the extension root
+ */
+export function getEntrypointOutputPath (info: EntrypointInfo): string {
+  switch (info.type) {
+    case 'content-script':
+      return `/content-scripts/${info.name}.js`
+    case 'content-script-style':
+      return `/content-scripts/${info.name}.css`
+    case 'unlisted-style':
+      return `/${info.name}.css`
+    case 'unlisted-script':
+    case 'background':
+      return `/${info.name}.js`
+    default:
+      return `/${info.name}.html`
+  }
+}
+
+/**
+ * Generate the code for the layers runtime virtual module
+ *
+ * @param data   Resolved layer metadata
+ */
+function generateCode (data: LayerRuntimeData): string {
+  return `
+    import { browser } from 'wxt/browser';
+
+    export const layers = ${JSON.stringify(data.layers)};
+
+    export const layerOrder = ${JSON.stringify(data.layerOrder)};
+
+    export const entrypoints = ${JSON.stringify(data.entrypoints)};
+
+    export const publicPrefixes = ${JSON.stringify(data.publicPrefixes)};
+
+    export function getEntrypointUrl (layer, name) {
+      const path = entrypoints[layer]?.[name];
+      if (!path) {
+        throw new Error('[wxt-layers] Unknown entrypoint "' + name + '" in layer "' + layer + '"');
+      }
+      return browser.runtime.getURL(path);
+    }
+
+    export function layerAsset (layer, path) {
+      const prefix = publicPrefixes[layer];
+      if (prefix === undefined) {
+        throw new Error('[wxt-layers] Unknown layer "' + layer + '"');
+      }
+      return browser.runtime.getURL('/' + [prefix, path.replace(/^\\/+/, '')].filter(Boolean).join('/'));
+    }
+  `
+}
+
+/**
+ * Create a Vite plugin that provides a virtual module with layer runtime metadata
+ *
+ * @param data   Resolved layer metadata (read when the module is loaded)
+ */
+export function createLayerRuntimePlugin (data: LayerRuntimeData) {
+  return {
+    name: 'wxt-module-layers-runtime',
+
+    resolveId (id: string) {
+      if (id === RUNTIME_MODULE_NAME) {
+        return RUNTIME_MODULE_ID
+      }
+    },
+
+    load (id: string) {
+      if (id === RUNTIME_MODULE_ID) {
+        return generateCode(data)
+      }
+    },
+  }
+}
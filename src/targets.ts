@@ -0,0 +1,65 @@
+import type { LayerConditions, LayerTargets } from './types'
+
+/**
+ * The current build target
+ */
+export interface BuildTarget {
+  browser: string
+  manifestVersion: 2 | 3
+  mode: string
+}
+
+/**
+ * Get the targets which match the current build, as readable strings
+ */
+function matchTargets (targets: LayerTargets, target: BuildTarget): { matched: string[], unmatched: string[] } {
+  const matched: string[] = []
+  const unmatched: string[] = []
+
+  const check = (key: keyof LayerTargets, value: string | number) => {
+    const values: Array<string | number> | undefined = targets[key]
+    if (values) {
+      const text = `${key} [${values.join(', ')}]`
+      if (values.includes(value)) {
+        matched.push(text)
+      }
+      else {
+        unmatched.push(text)
+      }
+    }
+  }
+
+  check('browsers', target.browser)
+  check('manifestVersions', target.manifestVersion)
+  check('modes', target.mode)
+
+  return { matched, unmatched }
+}
+
+/**
+ * Format the current build target for logging, e.g. `chrome mv3 production`
+ */
+export function formatTarget (target: BuildTarget): string {
+  return `${target.browser} mv${target.manifestVersion} ${target.mode}`
+}
+
+/**
+ * Get the reason a layer or source is excluded from the current build
+ *
+ * @returns  A readable reason if excluded, or undefined if included
+ */
+export function getExcludeReason (conditions: LayerConditions, target: BuildTarget): string | undefined {
+  if (conditions.include) {
+    const { unmatched } = matchTargets(conditions.include, target)
+    if (unmatched.length > 0) {
+      return `not in include ${unmatched.join(', ')}`
+    }
+  }
+
+  if (conditions.exclude) {
+    const { matched } = matchTargets(conditions.exclude, target)
+    if (matched.length > 0) {
+      return `in exclude ${matched.join(', ')}`
+    }
+  }
+}
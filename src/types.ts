@@ -1,5 +1,14 @@
 import type { LogLevel } from '@davestewart/wxt-utils'
-import type { HookResult, Wxt } from 'wxt'
+import type {
+  BackgroundEntrypointOptions,
+  BaseContentScriptEntrypointOptions,
+  EntrypointInfo,
+  HookResult,
+  OptionsEntrypointOptions,
+  PopupEntrypointOptions,
+  SidepanelEntrypointOptions,
+  Wxt,
+} from 'wxt'
 import type { Browser } from 'wxt/browser'
 
 /**
@@ -31,9 +40,85 @@ type EntrypointName =
   // string pattern to allow unlisted page, script or style names
   | `${string}`
 /**
- * Mapping of entrypoint names to their source paths
+ * Partial manifest to deep-merge into the extension manifest
  */
-export type LayerEntrypoints = Partial<Record<EntrypointName, string>>
+export type ManifestPatch = Partial<Browser.runtime.Manifest>
+
+/**
+ * Entrypoint options to override, as WXT would otherwise read them from the entrypoint file
+ */
+export type LayerEntrypointOverrides = Omit<
+  BackgroundEntrypointOptions &
+  BaseContentScriptEntrypointOptions &
+  PopupEntrypointOptions &
+  OptionsEntrypointOptions &
+  SidepanelEntrypointOptions,
+  'include' | 'exclude'
+> & {
+  world?: 'ISOLATED' | 'MAIN'
+}
+
+/**
+ * Object-form entrypoint config, with browser targeting and option overrides
+ *
+ * @usage
+ *
+ * ```ts
+ * 'linkedin.content': {
+ *   path: 'content/linkedin.ts',
+ *   include: ['chrome'],
+ *   matches: ['*://*.linkedin.com/*'],
+ *   runAt: 'document_end',
+ * }
+ * ```
+ */
+export type LayerEntrypointConfig = LayerEntrypointOverrides & {
+  /**
+   * Path to the entrypoint file, relative to the layer folder
+   */
+  path: string
+
+  /**
+   * Only build the entrypoint for these browsers, e.g. `['chrome', 'edge']`
+   */
+  include?: string[]
+
+  /**
+   * Don't build the entrypoint for these browsers, e.g. `['safari']`
+   */
+  exclude?: string[]
+}
+
+/**
+ * Mapping of entrypoint names to their source paths or configs
+ *
+ * In `merge` mode, `false` excludes a scanned entrypoint
+ */
+export type LayerEntrypoints = Partial<Record<EntrypointName, string | false | LayerEntrypointConfig>>
+
+/**
+ * Whether manual entrypoints replace or merge with scanned entrypoints
+ */
+export type EntrypointsMode = 'replace' | 'merge'
+
+/**
+ * Which layer public files are exposed as web accessible resources
+ *
+ * - `true` exposes all public files
+ * - an array exposes globs, relative to the layer's `public/` folder
+ * - an object also sets the pages allowed to access them (MV3 only)
+ */
+export type LayerWebAccessible = boolean | string[] | {
+  /**
+   * Globs, relative to the layer's `public/` folder (default: all files)
+   */
+  resources?: string[]
+
+  /**
+   * Match patterns of pages allowed to access the resources (default: `['<all_urls>']`)
+   */
+  matches?: string[]
+}
 
 /**
  * Options which configure how layers are built and added to the extension
@@ -61,6 +146,7 @@ export interface LayersCommonOptions {
    *
    * ```ts
    * '@{name}'    // '@<layer-name>', named after layer with '@' prefix
+   * '@{source}/{name}' // '@<source-name>/<layer-name>', unique across sources
    * ''           // empty string, no alias(es)
    * ```
    * Layer-only options:
@@ -125,6 +211,44 @@ export interface LayersCommonOptions {
    */
   entrypoints?: LayerEntrypoints
 
+  /**
+   * Whether manual `entrypoints` replace or merge with scanned entrypoints (default: 'replace')
+   *
+   * > _This option configurable at module, source and layer level_
+   *
+   * @usage
+   *
+   * ```ts
+   * 'replace'  // use only manual entrypoints, skipping folder scanning
+   * 'merge'    // scan folders, then add manual entrypoints, overriding scanned entrypoints with the same name
+   * ```
+   *
+   * In `merge` mode:
+   *
+   * - module, source and layer `entrypoints` are merged, rather than replaced
+   * - `false` values exclude scanned entrypoints, i.e. `{ 'sidepanel': false }`
+   */
+  entrypointsMode?: EntrypointsMode
+
+  /**
+   * Output name prefix for layer entrypoints, e.g. (default: '', no prefix)
+   *
+   * > _This option configurable at module, source and layer level_
+   *
+   * Applies to content scripts, sandboxes, sidepanels and unlisted pages, scripts and styles;
+   * single entrypoints such as `popup` and `options` keep their names
+   *
+   * @usage
+   *
+   * Entrypoint 'login.html' and 'content.ts' in layer 'auth' will be output to:
+   *
+   * ```ts
+   * ''          // 'login.html', 'content-scripts/content.js'
+   * '{name}-'   // 'auth-login.html', 'content-scripts/auth-content.js'
+   * ```
+   */
+  entrypointPrefix?: string
+
   /**
    * Public path prefix for layer public assets, e.g. (default: `{name}`, i.e. '/<layer-name>/')
    *
@@ -138,12 +262,130 @@ export interface LayersCommonOptions {
    * ''               // '/image.jpg' (root)
    * '{name}'         // '/<layer-name>/image.jpg' (subfolder)
    * 'layers/{name}'  // '/layers/<layer-name>/image.jpg' (nested subfolder)
+   * '{source}/{name}' // '/<source-name>/<layer-name>/image.jpg' (unique across sources)
    * 'layers'         // '/layers/image.jpg' (all layers use the same folder)
    * ```
    */
   publicPrefix?: string
+
+  /**
+   * Whether to add layer public files to the manifest's `web_accessible_resources`
+   *
+   * Resources are scoped to the layer's `publicPrefix` folder, and written in MV2 or MV3 format
+   *
+   * > _This option configurable at module, source and layer level_
+   *
+   * @usage
+   *
+   * ```ts
+   * true                                 // '<layer-name>/*'
+   * ['images/*', 'fonts/*.woff2']        // '<layer-name>/images/*', '<layer-name>/fonts/*.woff2'
+   * {
+   *   resources: ['images/*'],
+   *   matches: ['*://*.example.com/*'],  // MV3 only
+   * }
+   * ```
+   */
+  webAccessible?: LayerWebAccessible
+
+  /**
+   * Prefix for layer `locales/` message keys, to avoid clashes with other layers (default: '', no prefix)
+   *
+   * Characters which are not valid in message names (i.e. `-`) are replaced with `_`
+   *
+   * > _This option configurable at module, source and layer level_
+   *
+   * @usage
+   *
+   * Message key 'title' in layer 'some-feature' will be output as:
+   *
+   * ```ts
+   * ''               // 'title'
+   * '{name}_'        // 'some_feature_title'
+   * ```
+   */
+  localePrefix?: string
+}
+
+/**
+ * Build targets to match a layer or source against
+ *
+ * Each list is optional; an omitted list matches any target
+ */
+export interface LayerTargets {
+  /**
+   * Target browsers, e.g. `['chrome', 'edge']`, matching `wxt.config.browser`
+   */
+  browsers?: string[]
+
+  /**
+   * Target manifest versions, e.g. `[3]`, matching `wxt.config.manifestVersion`
+   */
+  manifestVersions?: Array<2 | 3>
+
+  /**
+   * Build modes, e.g. `['development']`, matching `wxt.config.mode`
+   */
+  modes?: string[]
+}
+
+/**
+ * Options which determine whether layers are included in the current build
+ *
+ * > _These options are configurable at source and layer level_
+ * >
+ * > A layer is only registered if both its source and its own conditions match
+ *
+ * @usage
+ *
+ * ```ts
+ * include: { browsers: ['firefox'] }    // firefox builds only
+ * exclude: { manifestVersions: [2] }    // skip MV2 builds
+ * include: { modes: ['development'] }   // dev builds only
+ * ```
+ */
+export interface LayerConditions {
+  /**
+   * Only include layers when all specified targets match
+   */
+  include?: LayerTargets
+
+  /**
+   * Exclude layers when any specified target matches
+   */
+  exclude?: LayerTargets
 }
 
+/**
+ * How the virtual background entrypoint handles a failed layer background
+ */
+export type BackgroundErrorPolicy = 'continue' | 'abort'
+
+/**
+ * How the virtual background entrypoint schedules layer backgrounds
+ */
+export type BackgroundMode = 'sequential' | 'parallel-by-order'
+
+/**
+ * How to handle layer public files with the same output path as other layers' or `src/public` files
+ */
+export type PublicCollisionPolicy = 'error' | 'warn' | 'override-by-order'
+
+/**
+ * How to handle layers with the same name in different sources
+ */
+export type LayerCollisionPolicy = 'error' | 'disambiguate'
+
+/**
+ * How to handle layer entrypoints with the same output name as other entrypoints
+ */
+export type EntrypointCollisionPolicy = 'error' | 'override-by-order' | 'namespace'
+
+/**
+ * How to handle imports which reach into another layer's internals
+ */
+export type LayerBoundaryPolicy = 'error' | 'warn'
+
 /**
  * Options for the Layers module
  */
@@ -160,59 +402,385 @@ export interface LayersModuleOptions extends LayersCommonOptions {
    *   'layers/*',        // all folders under '<root>/layers/'
    *   'src/packages/*',  // all folders under '<root>/src/packages/'
    *   'modules/foo',     // single layer 'foo' under '<root>/modules/'
+   *   '!layers/_old/*',  // ignore matching folders in all sources
    *   { source: 'features/*', ... }, // with options
+   *   { package: '@acme/wxt-layer-auth', ... }, // installed package
    * ]
    * ```
    */
-  sources?: Array<string | SourceOptions>
+  sources?: Array<string | SourceOptions | PackageSourceOptions>
 
   /**
-   * Whether to register source alias (default: `#{name}`, i.e. `#<source-name>`)
+   * Whether to register source alias (default: `#{name}`, i.e. `#<source-folder>`)
    *
    * @usage
    *
    * ```ts
-   * '@{name}'    // '@<source-name>', named after source with '@' prefix
+   * '@{name}'    // '@<source-folder>', named after the source folder with '@' prefix
    * ''           // empty string, no alias(es)
    * ```
    */
   sourceAlias?: string
 
+  /**
+   * Named sets of layers to build (default: undefined, all layers)
+   *
+   * Patterns match layer names and are applied in order; `*` matches any characters
+   * and `!` removes previously-matched layers
+   *
+   * @usage
+   *
+   * ```ts
+   * {
+   *   lite: ['core', 'popup'],        // only the 'core' and 'popup' layers
+   *   pro: ['*', '!experimental'],    // all layers except 'experimental'
+   * }
+   * ```
+   */
+  profiles?: Record<string, string[]>
+
+  /**
+   * The active profile (default: undefined, all layers)
+   *
+   * Overridden by the `WXT_LAYERS_PROFILE` environment variable, if set
+   */
+  profile?: string
+
+  /**
+   * Permissions and host permissions layers are allowed to add (default: undefined, any permissions)
+   *
+   * If set, the build fails if any layer adds a permission not in this list
+   *
+   * @usage
+   *
+   * ```ts
+   * ['storage', 'alarms', '*://*.example.com/*']
+   * ```
+   */
+  allowedPermissions?: string[]
+
+  /**
+   * How to handle layer public files with the same output path as other layers' or `src/public` files (default: 'warn')
+   *
+   * @usage
+   *
+   * ```ts
+   * 'error'              // fail the build, listing both source paths
+   * 'warn'               // warn, then resolve as 'override-by-order'
+   * 'override-by-order'  // src/public files win, otherwise the last layer in load order wins (i.e. theme icons)
+   * ```
+   */
+  publicCollisions?: PublicCollisionPolicy
+
+  /**
+   * How to handle layers with the same folder name in different sources (default: 'error')
+   *
+   * @usage
+   *
+   * ```ts
+   * 'error'         // fail the build, listing both layer paths
+   * 'disambiguate'  // rename colliding layers to '<source-name>-<layer-name>', i.e. 'packages-auth'
+   * ```
+   *
+   * Layer names must be unique, as they determine aliases, public folders, and runtime and background keys
+   */
+  layerCollisions?: LayerCollisionPolicy
+
+  /**
+   * How to handle layer entrypoints with the same name as other layers' or `src` entrypoints (default: 'error')
+   *
+   * @usage
+   *
+   * ```ts
+   * 'error'              // fail the build, listing both input paths
+   * 'override-by-order'  // src entrypoints win, otherwise the last layer in load order wins
+   * 'namespace'          // rename colliding layer entrypoints to '<layer-name>-<name>'
+   * ```
+   *
+   * Single entrypoints (i.e. popup, options) cannot be namespaced, so always fail the build with 'namespace'
+   */
+  entrypointCollisions?: EntrypointCollisionPolicy
+
+  /**
+   * Whether to enforce layer import boundaries at build time (default: undefined, not enforced)
+   *
+   * Other layers may only be imported through their alias root (i.e. `#auth`, resolving to `index.ts`),
+   * or files listed in their `exports`; relative imports into other layers are always reported
+   *
+   * @usage
+   *
+   * ```ts
+   * 'error'  // fail the build, listing the importer, target layer and a suggested fix
+   * 'warn'   // warn, but continue the build
+   * ```
+   */
+  boundaries?: LayerBoundaryPolicy
+
+  /**
+   * What to do when a layer background throws, rejects or times out (default: 'continue')
+   *
+   * Applies to the virtual background entrypoint, which runs all layer backgrounds in order
+   *
+   * @usage
+   *
+   * ```ts
+   * 'continue'   // log the error and run the remaining layer backgrounds
+   * 'abort'      // log the error and skip the remaining layer backgrounds
+   * ```
+   */
+  backgroundErrors?: BackgroundErrorPolicy
+
+  /**
+   * How layer backgrounds are scheduled (default: 'sequential')
+   *
+   * @usage
+   *
+   * ```ts
+   * 'sequential'         // run each layer background after the previous one completes
+   * 'parallel-by-order'  // run layer backgrounds with the same order concurrently, groups in ascending order
+   * ```
+   *
+   * Layers never run concurrently with layers they depend on
+   */
+  backgroundMode?: BackgroundMode
+
+  /**
+   * Whether layer backgrounds receive a context object, or the previous layer's result (default: true)
+   *
+   * The context contains the layer name, its resolved options, the results of earlier layers
+   * keyed by layer name, and `provide()` / `inject()` functions to share services between layers
+   */
+  backgroundContext?: boolean
+
+  /**
+   * Whether layer backgrounds log grouped output, timings and a status summary (default: true in development)
+   */
+  backgroundProfile?: boolean
+
   /**
    * Log level for the module logger (default: 'info', set to `debug` for full logging)
    */
   logLevel?: LogLevel
+
+  /**
+   * Throw build errors for invalid source and layer options, rather than warnings (default: false)
+   *
+   * Validation flags unknown options, wrong value types, missing entrypoint files and invalid `{name}` / `{source}` templates
+   */
+  strict?: boolean
 }
 
 /**
  * Options for a specific layer
  *
  */
-export interface LayerOptions extends LayersCommonOptions {
+export interface LayerOptions extends LayersCommonOptions, LayerConditions {
   /**
    * The order in which the layer is loaded (default: 50; lower numbers load first)
    */
   order?: number
 
+  /**
+   * Maximum time in milliseconds to wait for the layer background to complete (default: undefined, no timeout)
+   *
+   * Timed-out layer backgrounds are reported as failed, and handled according to `backgroundErrors`
+   */
+  backgroundTimeout?: number
+
+  /**
+   * Layers which must be loaded before this layer (default: [], no dependencies)
+   *
+   * Layers may be referenced by name, `{source}/{name}` id or registered alias, and are loaded in
+   * dependency order, with `order` used only to sort layers without a dependency
+   * between them. Missing dependencies or circular dependencies fail the build.
+   *
+   * @usage
+   *
+   * ```ts
+   * ['auth']              // layer named 'auth'
+   * ['packages/auth']     // layer 'auth' in the 'packages' source
+   * ['#auth', '#storage'] // layers aliased as '#auth' and '#storage'
+   * ```
+   */
+  dependsOn?: string[]
+
+  /**
+   * Files other layers may import directly, in addition to the layer's `index` file (default: [], index only)
+   *
+   * Paths and globs are relative to the layer folder, and folders include all their files
+   *
+   * > _Only enforced with the module `boundaries` option_
+   *
+   * @usage
+   *
+   * ```ts
+   * ['types.ts', 'components']  // '#auth/types', '#auth/components/Login.vue'
+   * ```
+   */
+  exports?: string[]
+
+  /**
+   * Files other layers may never import, even if they match `exports` (default: [])
+   *
+   * > _Only enforced with the module `boundaries` option_
+   *
+   * @usage
+   *
+   * ```ts
+   * ['components/internal']
+   * ```
+   */
+  private?: string[]
+
   /**
    * Callback to modify the extension manifest
    */
   manifest?: (wxt: Wxt, manifest: Browser.runtime.Manifest) => HookResult;
+
+  /**
+   * Manifest properties to deep-merge into the extension manifest (default: undefined, no changes)
+   *
+   * Patches are merged in layer order, before any `manifest` callbacks run:
+   *
+   * - objects are merged recursively
+   * - arrays (i.e. `permissions`, `host_permissions`) are unioned and de-duplicated
+   * - differing scalar values set by multiple layers fail the build as a conflict
+   *
+   * @usage
+   *
+   * ```ts
+   * {
+   *   permissions: ['storage', 'cookies'],
+   *   host_permissions: ['*://*.example.com/*'],
+   * }
+   * ```
+   */
+  manifestPatch?: ManifestPatch
 }
 
 /**
  * Options for one or more layers
  */
-export interface SourceOptions extends LayersCommonOptions {
+export interface SourceOptions extends LayersCommonOptions, LayerConditions {
   /**
-   * The source path glob, i.e. `src/layers/*`
+   * The source path or glob, i.e. `src/layers/*`
    *
    * Path must be relative to the project root or absolute path
+   *
+   * @usage
+   *
+   * ```ts
+   * 'layers/core'                  // single layer folder
+   * 'layers/*'                     // all folders under 'layers/'
+   * 'features/{auth,billing}'      // specific folders
+   * 'packages/**\/layer.config.ts'  // any folder with a layer config, at any depth
+   * ```
+   *
+   * Folders starting with `_` or `.` are ignored
    */
   source: string
 
   /**
-   * Whether to register layer alias (default: `#{source}`)
+   * Glob(s) of layer folders to ignore, i.e. `layers/_drafts/*`
+   *
+   * Paths must be relative to the project root or absolute paths
+   */
+  ignore?: string | string[]
+
+  /**
+   * Whether to register source alias (default: `#{name}`, i.e. `#<source-folder>`)
    */
   sourceAlias?: string
+
+  /**
+   * The package the source was resolved from, if any
+   */
+  package?: string
+}
+
+/**
+ * Options for one or more layers in an installed package
+ *
+ * The package is resolved from the project root using Node module resolution.
+ *
+ * The layer root(s) are read from the optional `wxtLayer` field in the package's
+ * `package.json`, relative to the package folder (default: the package folder):
+ *
+ * ```json
+ * { "wxtLayer": "layer" }                         // single layer in '<package>/layer/'
+ * { "wxtLayer": "layers/*" }                      // all folders under '<package>/layers/'
+ * { "wxtLayer": ["layers/auth", "layers/user"] }  // multiple layers
+ * ```
+ */
+export interface PackageSourceOptions extends Omit<SourceOptions, 'source' | 'package'> {
+  /**
+   * The package name, i.e. `@acme/wxt-layer-auth`
+   */
+  package: string
+}
+
+/**
+ * A layer discovered in a source, with its merged options
+ */
+export interface ResolvedLayer {
+  /**
+   * The layer name (the layer folder's basename, or `{source}-{name}` if disambiguated, without any `@` scope)
+   */
+  name: string
+
+  /**
+   * The unique layer identity, as `{source}/{name}`, i.e. `packages/auth` or `@acme/wxt-layer-auth/auth`
+   */
+  id: string
+
+  /**
+   * The absolute path to the layer folder
+   */
+  path: string
+
+  /**
+   * The resolved alias for the layer, if registered
+   */
+  alias?: string
+
+  /**
+   * The source the layer was discovered in
+   */
+  source: SourceOptions
+
+  /**
+   * The merged layer options
+   */
+  options: LayerOptions
+}
+
+/**
+ * The active profile and the layers it selected, passed to the `layers:resolved` hook
+ */
+export interface LayersProfile {
+  /**
+   * The profile name
+   */
+  name: string
+
+  /**
+   * The names of the selected layers
+   */
+  layers: string[]
+}
+
+/**
+ * An entrypoint discovered in a layer
+ *
+ * The `entrypointName` is the name within the layer, and `info.name` is the output name
+ */
+export interface LayerEntrypointInfo {
+  order: number,
+  layerName: string,
+  entrypointName: string,
+  group: number,
+  timeout?: number,
+  options: LayerOptions,
+  overrides?: LayerEntrypointOverrides,
+  info: EntrypointInfo,
 }
@@ -0,0 +1,224 @@
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+/**
+ * A value check, with a readable description of the expected type
+ */
+type Rule = [expected: string, check: (value: unknown) => boolean]
+
+// ---------------------------------------------------------------------------------------------------------------------
+// rules
+// ---------------------------------------------------------------------------------------------------------------------
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string')
+
+const string: Rule = ['a string', value => typeof value === 'string']
+const strings: Rule = ['an array of strings', isStringArray]
+const number: Rule = ['a number', value => typeof value === 'number' && !Number.isNaN(value)]
+const func: Rule = ['a function', value => typeof value === 'function']
+const object: Rule = ['an object', isObject]
+const oneOf = (...values: string[]): Rule => [values.map(value => `"${value}"`).join(' or '), value => values.includes(value as string)]
+
+const TARGET_RULES: Record<string, Rule> = {
+  browsers: strings,
+  manifestVersions: ['an array of 2 or 3', value => Array.isArray(value) && value.every(item => item === 2 || item === 3)],
+  modes: strings,
+}
+
+const COMMON_RULES: Record<string, Rule> = {
+  layerAlias: string,
+  autoImports: strings,
+  entrypoints: object,
+  entrypointsMode: oneOf('replace', 'merge'),
+  entrypointPrefix: string,
+  publicPrefix: string,
+  webAccessible: ['true, an array of globs, or an object', value => typeof value === 'boolean' || isStringArray(value) || isObject(value)],
+  localePrefix: string,
+  include: object,
+  exclude: object,
+}
+
+const LAYER_RULES: Record<string, Rule> = {
+  ...COMMON_RULES,
+  order: number,
+  backgroundTimeout: number,
+  dependsOn: strings,
+  exports: strings,
+  private: strings,
+  manifest: func,
+  manifestPatch: object,
+}
+
+const SOURCE_RULES: Record<string, Rule> = {
+  ...COMMON_RULES,
+  source: string,
+  sourceAlias: string,
+  package: string,
+  ignore: ['a string or an array of strings', value => typeof value === 'string' || isStringArray(value)],
+}
+
+/**
+ * Options which support the `{name}` and `{source}` placeholders
+ */
+const TEMPLATE_KEYS = ['layerAlias', 'sourceAlias', 'entrypointPrefix', 'publicPrefix', 'localePrefix']
+
+// ---------------------------------------------------------------------------------------------------------------------
+// helpers
+// ---------------------------------------------------------------------------------------------------------------------
+
+/**
+ * Get the edit distance between two strings
+ */
+function distance (a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1))
+      prev = temp
+    }
+  }
+  return row[b.length]
+}
+
+/**
+ * Suggest the closest known key for an unknown key
+ */
+function suggest (key: string, keys: string[]): string {
+  const [closest] = keys
+    .map(known => ({ known, score: distance(key, known) }))
+    .filter(({ score }) => score <= Math.max(2, Math.floor(key.length / 3)))
+    .sort((a, b) => a.score - b.score)
+  return closest
+    ? ` (did you mean "${closest.known}"?)`
+    : ''
+}
+
+/**
+ * Check an options object against a set of rules
+ */
+function checkOptions (options: Record<string, unknown>, rules: Record<string, Rule>, prefix = ''): string[] {
+  const problems: string[] = []
+  for (const [key, value] of Object.entries(options)) {
+    const rule = rules[key]
+    if (!rule) {
+      problems.push(`unknown option "${prefix}${key}"${suggest(key, Object.keys(rules))}`)
+    }
+    else if (value !== undefined && !rule[1](value)) {
+      problems.push(`"${prefix}${key}" should be ${rule[0]}`)
+    }
+  }
+  return problems
+}
+
+/**
+ * Check options with shared rules: build targets, entrypoints and templates
+ */
+function checkCommonOptions (options: Record<string, unknown>): string[] {
+  const problems: string[] = []
+
+  // build targets
+  for (const key of ['include', 'exclude']) {
+    if (isObject(options[key])) {
+      problems.push(...checkOptions(options[key], TARGET_RULES, `${key}.`))
+    }
+  }
+
+  // entrypoints
+  if (isObject(options.entrypoints)) {
+    for (const [key, value] of Object.entries(options.entrypoints)) {
+      const valid = typeof value === 'string' ||
+        value === false ||
+        (isObject(value) && typeof value.path === 'string')
+      if (!valid) {
+        problems.push(`"entrypoints.${key}" should be a path, false, or an object with a path`)
+      }
+    }
+  }
+
+  // templates
+  for (const key of TEMPLATE_KEYS) {
+    const value = options[key]
+    if (typeof value === 'string') {
+      const placeholders = (value.match(/\{[^}]*}/g) ?? []).filter(placeholder => !['{name}', '{source}'].includes(placeholder))
+      if (placeholders.length > 0) {
+        problems.push(`"${key}" has unknown placeholder ${placeholders.map(placeholder => `"${placeholder}"`).join(', ')} (only "{name}" and "{source}" are supported)`)
+      }
+    }
+  }
+
+  return problems
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// validation
+// ---------------------------------------------------------------------------------------------------------------------
+
+/**
+ * Validate a loaded layer config
+ *
+ * @param config      The loaded layer config, if any
+ * @param layerPath   The absolute path to the layer, to check entrypoint files
+ * @param label       The config file, for readable problems
+ * @returns           Readable problems, if any
+ */
+export function validateLayerConfig (config: unknown, layerPath: string, label: string): string[] {
+  if (!config) {
+    return []
+  }
+  if (!isObject(config)) {
+    return [`${label}: config should be an object`]
+  }
+
+  const problems = [
+    ...checkOptions(config, LAYER_RULES),
+    ...checkCommonOptions(config),
+  ]
+
+  // entrypoint files
+  if (isObject(config.entrypoints)) {
+    for (const [key, value] of Object.entries(config.entrypoints)) {
+      const path = isObject(value) ? value.path : value
+      if (typeof path === 'string' && !existsSync(resolve(layerPath, path))) {
+        problems.push(`"entrypoints.${key}" file "${path}" not found`)
+      }
+    }
+  }
+
+  return problems.map(problem => `${label}: ${problem}`)
+}
+
+/**
+ * Validate module `sources` options
+ *
+ * @param sources     The module's sources option
+ * @returns           Readable problems, if any
+ */
+export function validateSources (sources: unknown): string[] {
+  const problems: string[] = []
+  const items = Array.isArray(sources) ? sources : [sources]
+  items.forEach((source, index) => {
+    const label = `sources[${index}]`
+    if (source === undefined || typeof source === 'string') {
+      return
+    }
+    if (!isObject(source)) {
+      problems.push(`${label}: source should be a path or an object`)
+      return
+    }
+    if (!('source' in source) && !('package' in source)) {
+      problems.push(`${label}: missing option "source" or "package"`)
+    }
+    problems.push(...[
+      ...checkOptions(source, SOURCE_RULES),
+      ...checkCommonOptions(source),
+    ].map(problem => `${label}: ${problem}`))
+  })
+  return problems
+}
@@ -0,0 +1,126 @@
+import { basename, dirname, relative, sep } from 'node:path'
+import { LAYER_CONFIG_RX, loadLayerConfig } from './filesystem'
+import type { LayerOptions } from './types'
+
+/**
+ * What each layer option affects, for readable change messages
+ */
+const AFFECTED_AREAS: Record<string, string> = {
+  layerAlias: 'alias',
+  autoImports: 'auto-imports',
+  entrypoints: 'entrypoints',
+  entrypointsMode: 'entrypoints',
+  entrypointPrefix: 'entrypoints',
+  publicPrefix: 'public assets',
+  webAccessible: 'manifest',
+  localePrefix: 'locales',
+  include: 'conditions',
+  exclude: 'conditions',
+  order: 'load order',
+  dependsOn: 'load order',
+  exports: 'boundaries',
+  private: 'boundaries',
+  backgroundTimeout: 'background',
+  manifest: 'manifest',
+  manifestPatch: 'manifest',
+}
+
+/**
+ * Minimal file watcher interface (Vite's chokidar instance)
+ */
+interface Watcher {
+  add (paths: string | readonly string[]): unknown
+  on (event: 'all', listener: (event: string, path: string) => void): unknown
+}
+
+/**
+ * Options for watching layers
+ */
+export interface LayerWatchOptions {
+  /**
+   * The project root, for readable paths
+   */
+  rootDir: string
+
+  /**
+   * Static source folders, which contain layers
+   */
+  sourceDirs: string[]
+
+  /**
+   * Loaded layer configs, by absolute layer path
+   */
+  layerConfigs: Map<string, LayerOptions | null>
+
+  /**
+   * Find current layer paths in all sources
+   */
+  findLayerPaths: () => string[]
+}
+
+/**
+ * Compare a value, including functions
+ */
+function serialize (value: unknown): string | undefined {
+  return typeof value === 'function'
+    ? String(value)
+    : JSON.stringify(value)
+}
+
+/**
+ * Get the areas affected by a change in layer config
+ *
+ * @returns  Readable areas, i.e. `['alias', 'entrypoints']`, or an empty array if nothing changed
+ */
+export function getAffectedAreas (prev: LayerOptions | null, next: LayerOptions | null): string[] {
+  const a = (prev ?? {}) as Record<string, unknown>
+  const b = (next ?? {}) as Record<string, unknown>
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  const areas = [...keys]
+    .filter(key => serialize(a[key]) !== serialize(b[key]))
+    .map(key => AFFECTED_AREAS[key] ?? 'options')
+  return [...new Set(areas)]
+}
+
+/**
+ * Watch layer sources and configs, and call back when layers are added, removed or reconfigured
+ *
+ * @param watcher     The dev server's file watcher
+ * @param options     Sources and layers to watch
+ * @param onChange    Called with a readable description of the change
+ */
+export function watchLayers (watcher: Watcher, options: LayerWatchOptions, onChange: (change: string) => void) {
+  const { rootDir, sourceDirs, layerConfigs, findLayerPaths } = options
+  let layerPaths = findLayerPaths()
+
+  // ensure sources outside the project (i.e. packages) are watched
+  watcher.add(sourceDirs)
+
+  watcher.on('all', async (event, path) => {
+    // layer added or removed
+    const isInSource = sourceDirs.some(sourceDir => path.startsWith(sourceDir + sep))
+    if (isInSource && ['add', 'addDir', 'unlink', 'unlinkDir'].includes(event)) {
+      const paths = findLayerPaths()
+      const added = paths.filter(path => !layerPaths.includes(path))
+      const removed = layerPaths.filter(path => !paths.includes(path))
+      layerPaths = paths
+      if (added.length > 0 || removed.length > 0) {
+        return onChange([
+          ...added.map(path => `Layer added: ${relative(rootDir, path)}`),
+          ...removed.map(path => `Layer removed: ${relative(rootDir, path)}`),
+        ].join(', '))
+      }
+    }
+
+    // layer config changed
+    const layerPath = dirname(path)
+    if (LAYER_CONFIG_RX.test(basename(path)) && layerConfigs.has(layerPath)) {
+      const config = await loadLayerConfig(layerPath)
+      const areas = getAffectedAreas(layerConfigs.get(layerPath)!, config)
+      if (areas.length > 0) {
+        layerConfigs.set(layerPath, config)
+        onChange(`Layer "${basename(layerPath)}" config changed (${areas.join(', ')})`)
+      }
+    }
+  })
+}
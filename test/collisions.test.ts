@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { EntrypointInfo } from 'wxt'
+import { resolveEntrypointCollisions, resolveLayerCollisions, resolvePublicAssetCollisions } from '../src/collisions'
+import type { LayerEntrypointInfo, ResolvedLayer } from '../src/types'
+
+/**
+ * Create a layer, i.e. `layer('layers', 'auth')`
+ */
+function layer (sourceName: string, name: string): ResolvedLayer {
+  return {
+    name,
+    id: `${sourceName}/${name}`,
+    path: `/project/${sourceName}/${name}`,
+    source: { source: `/project/${sourceName}/*` },
+    options: {},
+  }
+}
+
+/**
+ * Create a layer entrypoint, i.e. `entrypoint('auth', 'popup', 'popup')`
+ */
+function entrypoint (layerName: string, name: string, type: EntrypointInfo['type']): LayerEntrypointInfo {
+  return {
+    layerName,
+    entrypointName: name,
+    order: 50,
+    group: 0,
+    options: {},
+    info: { name, type, inputPath: `/project/layers/${layerName}/entrypoints/${name}` } as EntrypointInfo,
+  }
+}
+
+describe('resolveLayerCollisions', () => {
+  const layers = [layer('layers', 'auth'), layer('packages', 'auth'), layer('layers', 'billing')]
+
+  it('reports layers with the same name', () => {
+    const { errors } = resolveLayerCollisions('/project', layers, 'error')
+    expect(errors).toEqual(['"auth": layers/auth, packages/auth'])
+  })
+
+  it('renames colliding layers with their source name', () => {
+    const { layers: resolved, errors, warnings } = resolveLayerCollisions('/project', layers, 'disambiguate')
+    expect(errors).toEqual([])
+    expect(warnings).toHaveLength(1)
+    expect(resolved.map(layer => layer.name)).toEqual(['layers-auth', 'packages-auth', 'billing'])
+  })
+
+  it('renames package layers without the scope', () => {
+    const { layers: resolved } = resolveLayerCollisions('/project', [layer('layers', 'auth'), layer('@acme/pkg', 'auth')], 'disambiguate')
+    expect(resolved.map(layer => layer.name)).toEqual(['layers-auth', 'acme-pkg-auth'])
+  })
+
+  it('reports collisions which renaming would not resolve', () => {
+    const { errors } = resolveLayerCollisions('/project', [...layers, layer('other', 'layers-auth')], 'disambiguate')
+    expect(errors).toEqual(['"auth": layers/auth, packages/auth'])
+  })
+})
+
+describe('resolveEntrypointCollisions', () => {
+  const existing = [{ name: 'popup', type: 'popup', inputPath: '/project/src/entrypoints/popup.html' }] as EntrypointInfo[]
+
+  it('reports entrypoints with the same name as each other, or the project', () => {
+    const entrypoints = [entrypoint('auth', 'popup', 'popup'), entrypoint('auth', 'panel', 'sidepanel'), entrypoint('ui', 'panel', 'sidepanel')]
+    const { errors } = resolveEntrypointCollisions('/project', existing, entrypoints, 'error')
+    expect(errors).toEqual([
+      '"popup": src/entrypoints/popup.html, layers/auth/entrypoints/popup',
+      '"panel": layers/auth/entrypoints/panel, layers/ui/entrypoints/panel',
+    ])
+  })
+
+  it('prefers the project, then the last layer', () => {
+    const entrypoints = [entrypoint('auth', 'popup', 'popup'), entrypoint('auth', 'panel', 'sidepanel'), entrypoint('ui', 'panel', 'sidepanel')]
+    const { entrypoints: resolved } = resolveEntrypointCollisions('/project', existing, entrypoints, 'override-by-order')
+    expect(resolved.map(entrypoint => `${entrypoint.layerName}:${entrypoint.info.name}`)).toEqual(['ui:panel'])
+  })
+
+  it('namespaces entrypoints, except singletons', () => {
+    const entrypoints = [entrypoint('auth', 'popup', 'popup'), entrypoint('auth', 'linkedin', 'content-script'), entrypoint('ui', 'linkedin', 'content-script')]
+    const { entrypoints: resolved, errors } = resolveEntrypointCollisions('/project', existing, entrypoints, 'namespace')
+    expect(errors).toEqual(['"popup": src/entrypoints/popup.html, layers/auth/entrypoints/popup'])
+    expect(resolved.map(entrypoint => entrypoint.info.name)).toEqual(['popup', 'auth-linkedin', 'ui-linkedin'])
+  })
+})
+
+describe('resolvePublicAssetCollisions', () => {
+  const existing = [{ absoluteSrc: '/project/src/public/icon.png', relativeDest: 'icon.png' }]
+  const assets = [
+    { layerName: 'auth', absoluteSrc: '/project/layers/auth/public/icon.png', relativeDest: '/icon.png' },
+    { layerName: 'auth', absoluteSrc: '/project/layers/auth/public/logo.png', relativeDest: 'logo.png' },
+    { layerName: 'ui', absoluteSrc: '/project/layers/ui/public/logo.png', relativeDest: 'logo.png' },
+  ]
+
+  it('reports assets with the same output path', () => {
+    const { errors } = resolvePublicAssetCollisions('/project', existing, assets, 'error')
+    expect(errors).toEqual([
+      '"icon.png": src/public/icon.png, layers/auth/public/icon.png',
+      '"logo.png": layers/auth/public/logo.png, layers/ui/public/logo.png',
+    ])
+  })
+
+  it('prefers the project, then the last layer', () => {
+    const { assets: resolved, warnings } = resolvePublicAssetCollisions('/project', existing, assets, 'override-by-order')
+    expect(resolved.map(asset => asset.absoluteSrc)).toEqual(['/project/layers/ui/public/logo.png'])
+    expect(warnings).toHaveLength(2)
+  })
+})
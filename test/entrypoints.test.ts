@@ -0,0 +1,101 @@
+import { cpSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { type EntrypointInfo, prepare } from 'wxt'
+import { getEntrypointConfig, getLayerEntrypoints, scanLayerEntrypoints } from '../src/entrypoints'
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url))
+
+/**
+ * Thrown from WXT's `entrypoints:found` hook, to stop once entrypoints are found
+ */
+const FOUND = 'entrypoints found'
+
+/**
+ * Temporary project folders, removed after each test
+ */
+const tempDirs: string[] = []
+
+/**
+ * Describe entrypoints as sorted, readable strings, i.e. `popup: popup (popup.html)`
+ */
+function describeEntrypoints (layerPath: string, entrypoints: EntrypointInfo[]): string[] {
+  const entrypointsDir = join(layerPath, 'entrypoints')
+  return entrypoints
+    .map(({ name, type, inputPath }) => `${type}: ${name} (${relative(entrypointsDir, inputPath).replace(/\\/g, '/')})`)
+    .sort()
+}
+
+/**
+ * Find entrypoints in a fixture with WXT's own discovery, as if it were `src/entrypoints`
+ */
+async function findWxtEntrypoints (fixture: string): Promise<string[]> {
+  // copy the fixture, so WXT's generated files are not written to it
+  const root = mkdtempSync(join(tmpdir(), 'wxt-layers-'))
+  tempDirs.push(root)
+  cpSync(join(FIXTURES_DIR, fixture), root, { recursive: true })
+
+  let entrypoints: EntrypointInfo[] = []
+  await prepare({
+    root,
+    srcDir: '.',
+    logger: { debug () {}, info () {}, warn () {}, error () {}, log () {}, success () {}, fatal () {}, level: 0 },
+    hooks: {
+      'entrypoints:found': (_, infos) => {
+        entrypoints = [...infos]
+        throw new Error(FOUND)
+      },
+    },
+  }).catch(error => {
+    if (error?.message !== FOUND) {
+      throw error
+    }
+  })
+  return describeEntrypoints(root, entrypoints)
+}
+
+/**
+ * Find entrypoints in a fixture with layer discovery
+ */
+function scanFixture (fixture: string): string[] {
+  const layerPath = join(FIXTURES_DIR, fixture)
+  return describeEntrypoints(layerPath, scanLayerEntrypoints(layerPath))
+}
+
+afterEach(() => {
+  tempDirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }))
+})
+
+describe('scanLayerEntrypoints', () => {
+  it('finds the same entrypoints as WXT', async () => {
+    expect(scanFixture('parity')).toEqual(await findWxtEntrypoints('parity'))
+  }, 30_000)
+
+  it('skips test files, type declarations and unknown extensions', () => {
+    expect(scanFixture('ignored')).toEqual([])
+  })
+
+  it('supports .mts scripts', () => {
+    expect(scanFixture('mts')).toEqual([
+      'background: background (background.mts)',
+      'content-script: linkedin (linkedin.content.mts)',
+      'unlisted-script: injected (injected.mts)',
+    ])
+  })
+})
+
+describe('getEntrypointConfig', () => {
+  it('finds configs by key, not by name', () => {
+    const config = {
+      'linkedin.content': { path: 'entrypoints/linkedin.content.mts', matches: ['*://*.linkedin.com/*'] },
+      linkedin: 'entrypoints/injected.mts',
+    }
+    const entrypoints = getLayerEntrypoints(join(FIXTURES_DIR, 'mts'), config)
+    expect(entrypoints.map(({ key, type }) => [key, type, getEntrypointConfig(config, key)?.matches])).toEqual([
+      ['linkedin.content', 'content-script', ['*://*.linkedin.com/*']],
+      ['linkedin', 'unlisted-script', undefined],
+    ])
+  })
+})
@@ -0,0 +1,71 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join, relative } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { getLayerPaths } from '../src/filesystem'
+
+/**
+ * Temporary project folders, removed after each test
+ */
+const tempDirs: string[] = []
+
+/**
+ * Create a temporary project with the given files, i.e. `['layers/auth/layer.config.ts', 'layers/billing/']`
+ */
+function createProject (files: string[]): string {
+  const root = mkdtempSync(join(tmpdir(), 'wxt-layers-'))
+  tempDirs.push(root)
+  for (const file of files) {
+    const path = join(root, file)
+    if (file.endsWith('/')) {
+      mkdirSync(path, { recursive: true })
+    }
+    else {
+      mkdirSync(dirname(path), { recursive: true })
+      writeFileSync(path, '')
+    }
+  }
+  return root
+}
+
+/**
+ * Find layer paths for a source, relative to the project root
+ */
+function findLayers (root: string, source: string, ignore: string[] = []): string[] {
+  return getLayerPaths({ source: join(root, source), ignore: ignore.map(pattern => join(root, pattern)) })
+    .map(path => relative(root, path).replace(/\\/g, '/'))
+}
+
+afterEach(() => {
+  tempDirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }))
+})
+
+describe('getLayerPaths', () => {
+  it('finds folders, skipping "_" and "." folders', () => {
+    const root = createProject(['layers/auth/', 'layers/billing/', 'layers/_drafts/', 'layers/.cache/'])
+    expect(findLayers(root, 'layers/*')).toEqual(['layers/auth', 'layers/billing'])
+  })
+
+  it('finds layer config folders, skipping node_modules below the source', () => {
+    const root = createProject([
+      'packages/auth/layer.config.ts',
+      'packages/billing/core/layer.config.ts',
+      'packages/billing/node_modules/dep/layer.config.ts',
+    ])
+    expect(findLayers(root, 'packages/**/layer.config.ts')).toEqual(['packages/auth', 'packages/billing/core'])
+  })
+
+  it('finds layers in a source inside node_modules', () => {
+    const root = createProject(['node_modules/@acme/pkg/layers/auth/', 'node_modules/@acme/pkg/layers/sso/'])
+    expect(findLayers(root, 'node_modules/@acme/pkg/layers/*')).toEqual([
+      'node_modules/@acme/pkg/layers/auth',
+      'node_modules/@acme/pkg/layers/sso',
+    ])
+  })
+
+  it('ignores folders, including the folders of matched config files', () => {
+    const root = createProject(['packages/foo/layer.config.ts', 'packages/bar/layer.config.ts', 'layers/foo/'])
+    expect(findLayers(root, 'packages/**/layer.config.ts', ['packages/foo'])).toEqual(['packages/bar'])
+    expect(findLayers(root, 'layers/*', ['layers/foo'])).toEqual([])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { groupLayers, sortLayers } from '../src/ordering'
+import type { LayerOptions, ResolvedLayer } from '../src/types'
+
+/**
+ * Create a layer in the `layers` source, i.e. `layer('auth', { order: 10 })`
+ */
+function layer (name: string, options: LayerOptions = {}, alias?: string): ResolvedLayer {
+  return {
+    name,
+    id: `layers/${name}`,
+    path: `/project/layers/${name}`,
+    alias,
+    source: { source: '/project/layers/*' },
+    options,
+  }
+}
+
+/**
+ * Get layer names, in order
+ */
+function names (layers: ResolvedLayer[]): string[] {
+  return layers.map(layer => layer.name)
+}
+
+describe('sortLayers', () => {
+  it('sorts by order, then discovery order', () => {
+    const layers = [layer('c', { order: 20 }), layer('a'), layer('b', { order: 10 }), layer('d', { order: 10 })]
+    expect(names(sortLayers(layers))).toEqual(['b', 'd', 'c', 'a'])
+  })
+
+  it('loads dependencies first, by name, id or alias', () => {
+    const layers = [
+      layer('analytics', { order: 1, dependsOn: ['#auth', 'layers/storage'] }),
+      layer('auth', { order: 90, dependsOn: ['storage'] }, '#auth'),
+      layer('storage', { order: 99 }),
+    ]
+    expect(names(sortLayers(layers))).toEqual(['storage', 'auth', 'analytics'])
+  })
+
+  it('throws on missing dependencies', () => {
+    const layers = [layer('analytics', { dependsOn: ['auth'] })]
+    expect(() => sortLayers(layers)).toThrow('depends on "auth", which was not found')
+  })
+
+  it('explains missing dependencies which were skipped', () => {
+    const layers = [layer('analytics', { dependsOn: ['auth', 'layers/billing'] })]
+    const skipped = new Map([
+      ['auth', 'excluded for chrome mv3 production'],
+      ['layers/billing', 'not in profile "lite"'],
+    ])
+    expect(() => sortLayers(layers, skipped)).toThrow([
+      'depends on "auth", which is excluded for chrome mv3 production',
+      '  - layer "analytics" (/project/layers/analytics) depends on "layers/billing", which is not in profile "lite"',
+    ].join('\n'))
+  })
+
+  it('throws on circular dependencies', () => {
+    const layers = [layer('a', { dependsOn: ['b'] }), layer('b', { dependsOn: ['c'] }), layer('c', { dependsOn: ['a'] })]
+    expect(() => sortLayers(layers)).toThrow('Circular layer dependency: "a" -> "b" -> "c" -> "a"')
+  })
+})
+
+describe('groupLayers', () => {
+  it('groups consecutive layers with the same order, unless they depend on each other', () => {
+    const sorted = sortLayers([
+      layer('auth', { order: 10 }),
+      layer('storage', { order: 10 }),
+      layer('sync', { order: 10, dependsOn: ['storage'] }),
+      layer('ui', { order: 20 }),
+    ])
+    const groups = groupLayers(sorted)
+    expect(sorted.map(layer => [layer.name, groups.get(layer)])).toEqual([
+      ['auth', 0],
+      ['storage', 0],
+      ['sync', 1],
+      ['ui', 2],
+    ])
+  })
+})
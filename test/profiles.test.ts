@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { isInProfile, PROFILE_ENV, resolveProfile } from '../src/profiles'
+
+afterEach(() => {
+  delete process.env[PROFILE_ENV]
+})
+
+describe('resolveProfile', () => {
+  const profiles = { lite: ['core', 'ui-*'], full: ['*'] }
+
+  it('uses the environment variable over module options', () => {
+    process.env[PROFILE_ENV] = 'full'
+    expect(resolveProfile({ profile: 'lite', profiles })).toEqual({ name: 'full', patterns: ['*'] })
+  })
+
+  it('returns undefined without a profile', () => {
+    expect(resolveProfile({ profiles })).toBeUndefined()
+  })
+
+  it('throws on unknown profiles', () => {
+    expect(() => resolveProfile({ profile: 'pro', profiles })).toThrow('Unknown layers profile "pro" (available: lite, full)')
+  })
+})
+
+describe('isInProfile', () => {
+  it('matches names and wildcards', () => {
+    const profile = { name: 'lite', patterns: ['core', 'ui-*'] }
+    expect(['core', 'ui-popup', 'ui', 'core-extra'].filter(name => isInProfile(profile, name))).toEqual(['core', 'ui-popup'])
+  })
+
+  it('applies "!" patterns in order', () => {
+    const profile = { name: 'lite', patterns: ['*', '!experimental-*', 'experimental-ai'] }
+    expect(['auth', 'experimental-ai', 'experimental-vr'].filter(name => isInProfile(profile, name))).toEqual(['auth', 'experimental-ai'])
+  })
+
+  it('escapes regular expression characters', () => {
+    const profile = { name: 'lite', patterns: ['a.b'] }
+    expect(isInProfile(profile, 'a.b')).toBe(true)
+    expect(isInProfile(profile, 'axb')).toBe(false)
+  })
+})